@@ -4,10 +4,13 @@
  * SvelteKit and TanStack Start intentionally define explicit config types so
  * editor hovers show adapter-specific docs instead of an opaque shared alias.
  * This file makes TypeScript fail if those duplicated public shapes drift,
- * while still allowing TanStack Start to keep its adapter-only `router` field.
+ * while still allowing each adapter to keep its adapter-only route source field:
+ * `router` for TanStack Start and `routeFiles`, `matchers`, and `pageSitemaps`
+ * for SvelteKit.
  *
  * This file has no runtime behavior and exports no public API.
  */
+import type { ParamMatchers, RouteSitemap } from '../core/internal/types.js';
 import type { SitemapConfig as SvelteKitSitemapConfig } from './sveltekit/internal/types.js';
 import type {
   SitemapConfig as TanStackStartSitemapConfig,
@@ -23,9 +26,21 @@ type Same<Actual, Expected> = [Actual] extends [Expected]
 type Expect<T extends true> = T;
 
 type _SitemapConfigsStayInSync = Expect<
-  Same<Omit<TanStackStartSitemapConfig, 'router'>, SvelteKitSitemapConfig>
+  Same<Omit<TanStackStartSitemapConfig, 'router'>, Omit<SvelteKitSitemapConfig, 'matchers' | 'pageSitemaps' | 'routeFiles'>>
 >;
 
 type _TanStackRouterStaysAdapterOnly = Expect<
   Same<TanStackStartSitemapConfig['router'], TanStackStartRouterFactory>
 >;
+
+type _SvelteKitRouteFilesStayAdapterOnly = Expect<
+  Same<SvelteKitSitemapConfig['routeFiles'], string[] | undefined>
+>;
+
+type _SvelteKitMatchersStayAdapterOnly = Expect<
+  Same<SvelteKitSitemapConfig['matchers'], ParamMatchers | undefined>
+>;
+
+type _SvelteKitPageSitemapsStayAdapterOnly = Expect<
+  Same<SvelteKitSitemapConfig['pageSitemaps'], Record<string, RouteSitemap> | undefined>
+>;
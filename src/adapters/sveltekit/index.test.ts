@@ -20,11 +20,13 @@ describe('SvelteKit package API', () => {
     });
   });
 
-  it('exports SvelteKit adapter APIs and types for consumer-style usage', () => {
+  it('exports SvelteKit adapter APIs and types for consumer-style usage', async () => {
     expect(sveltekit.response).toBeTypeOf('function');
     expect(sveltekit.getBody).toBeTypeOf('function');
     expect(sveltekit.getHeaders).toBeTypeOf('function');
     expect(sveltekit.getSamplePaths).toBeTypeOf('function');
+    expect(sveltekit.robots).toBeTypeOf('function');
+    expect(sveltekit.stylesheetResponse).toBeTypeOf('function');
 
     const config: SvelteKitSitemapConfig = {
       additionalPaths: ['/blog/hello-world'],
@@ -32,12 +34,16 @@ describe('SvelteKit package API', () => {
     };
     const configWithRouteFiles: SvelteKitSitemapConfig = {
       origin: 'https://example.com',
-      // @ts-expect-error - route file injection is an internal adapter test hook.
+      paramValues: { '/blog/[slug]': ['hello-world'] },
       routeFiles: ['/src/routes/blog/[slug]/+page.svelte'],
     };
 
-    expect(configWithRouteFiles.origin).toBe('https://example.com');
-    expect(sveltekit.getBody(config)).toContain('<loc>https://example.com/blog/hello-world</loc>');
+    expect(await sveltekit.getBody(configWithRouteFiles)).toContain(
+      '<loc>https://example.com/blog/hello-world</loc>'
+    );
+    expect(await sveltekit.getBody(config)).toContain(
+      '<loc>https://example.com/blog/hello-world</loc>'
+    );
     expect(
       sveltekit.getHeaders({
         customHeaders: { 'cache-control': 'max-age=0, s-maxage=86400' },
@@ -46,7 +52,7 @@ describe('SvelteKit package API', () => {
       'cache-control': 'max-age=0, s-maxage=86400',
       'content-type': 'application/xml',
     });
-    expect(sveltekit.getSamplePaths({ sitemapConfig: config })).toEqual([]);
+    expect(await sveltekit.getSamplePaths({ sitemapConfig: config })).toEqual([]);
   });
 
   it('exports SvelteKit config types from the adapter entrypoint', () => {
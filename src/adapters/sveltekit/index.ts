@@ -2,11 +2,23 @@ export type {
   Alternate,
   Changefreq,
   LocalesConfig,
+  ParamMatchers,
   ParamValue,
   ParamValues,
+  ParamValuesContext,
   PathObj,
   Priority,
+  RobotsConfig,
+  RobotsRule,
+  RouteSitemap,
+  SitemapGroup,
+  SitemapImage,
+  SitemapJson,
+  SitemapJsonUrl,
+  SitemapNews,
+  SitemapRoutes,
+  SitemapVideo,
 } from '../../core/internal/types.js';
 export { getSamplePaths } from './internal/sample-paths.js';
-export { getBody, getHeaders, response } from './internal/sitemap.js';
+export { getBody, getHeaders, response, robots, stylesheetResponse } from './internal/sitemap.js';
 export type { GetHeadersOptions, GetSamplePathsOptions, SitemapConfig } from './internal/types.js';
@@ -1,14 +1,13 @@
-import fs from 'node:fs';
-import os from 'node:os';
-import path from 'node:path';
-
 import { describe, expect, it } from 'vitest';
 
+import { listSvelteKitPageRouteFiles } from '../../../node/sveltekit-routes.js';
 import {
-  discoverSvelteKitPageRouteFilesFromDirectory,
-  listFilePathsRecursively,
+  createFixtureDir,
+  removeFixtureDir,
+  writeFixtureFiles,
 } from '../../../test-utils/sveltekit-route-files.js';
 import {
+  collectSvelteKitPageSitemaps,
   convertToNormalizedRoute,
   createSvelteKitNormalizedRoutes,
   expandOptionalParamRouteVariants,
@@ -20,33 +19,27 @@ import {
 describe('SvelteKit routes', () => {
   // Real import.meta.glob discovery is integration-tested in examples/sveltekit,
   // which is a live SvelteKit app with routes at /src/routes.
-  it('returns the full path of each file in nested directories', () => {
-    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'super-sitemap-'));
-    const nestedDir = path.join(tmpDir, 'nested', 'deeper');
+  it('lists page files in nested directories as /src/routes paths', () => {
+    const tmpDir = createFixtureDir('routes');
 
     try {
-      fs.mkdirSync(nestedDir, { recursive: true });
-      const rootFile = path.join(tmpDir, '+page.svelte');
-      const nestedFile = path.join(tmpDir, 'nested', '+page@.svelte');
-      const deepFile = path.join(nestedDir, '+page.md');
-
-      fs.writeFileSync(rootFile, '');
-      fs.writeFileSync(nestedFile, '');
-      fs.writeFileSync(deepFile, '');
+      writeFixtureFiles(tmpDir, ['+page.svelte', 'nested/+page@.svelte', 'nested/deeper/+page.md']);
 
-      expect(listFilePathsRecursively(tmpDir).sort()).toEqual(
-        [deepFile, nestedFile, rootFile].sort()
-      );
+      expect(listSvelteKitPageRouteFiles(tmpDir)).toEqual([
+        '/src/routes/+page.svelte',
+        '/src/routes/nested/+page@.svelte',
+        '/src/routes/nested/deeper/+page.md',
+      ]);
     } finally {
-      fs.rmSync(tmpDir, { force: true, recursive: true });
+      removeFixtureDir(tmpDir);
     }
   });
 
   it('discovers supported page file variants from disk and excludes endpoints', () => {
-    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'super-sitemap-routes-'));
+    const tmpDir = createFixtureDir('routes');
 
     try {
-      const files = [
+      writeFixtureFiles(tmpDir, [
         '+page.svelte',
         'terms/+page@.svelte',
         'break/+page@foo.svelte',
@@ -55,15 +48,9 @@ describe('SvelteKit routes', () => {
         'markdown/+page.md',
         'content/+page.svx',
         'api/+server.ts',
-      ];
-
-      for (const file of files) {
-        const filePath = path.join(tmpDir, file);
-        fs.mkdirSync(path.dirname(filePath), { recursive: true });
-        fs.writeFileSync(filePath, '');
-      }
+      ]);
 
-      expect(discoverSvelteKitPageRouteFilesFromDirectory(tmpDir).sort()).toEqual(
+      expect(listSvelteKitPageRouteFiles(tmpDir)).toEqual(
         [
           '/src/routes/+page.svelte',
           '/src/routes/break/+page@foo.svelte',
@@ -75,7 +62,7 @@ describe('SvelteKit routes', () => {
         ].sort()
       );
     } finally {
-      fs.rmSync(tmpDir, { force: true, recursive: true });
+      removeFixtureDir(tmpDir);
     }
   });
 
@@ -301,4 +288,57 @@ describe('SvelteKit routes', () => {
       expect.objectContaining({ value: expect.stringMatching(/\(|\)|\+page|\.svelte|\[/) })
     );
   });
+
+  it('attaches route-level sitemap exports to every route variant of their page', () => {
+    const normalizedRoutes = createSvelteKitNormalizedRoutes({
+      pageSitemaps: {
+        '/src/routes/(marketing)/pricing': { changefreq: 'weekly', priority: 0.9 },
+        '/src/routes/archive/[[year]]': { exclude: true },
+      },
+      routeFiles: [
+        '/src/routes/(marketing)/pricing/+page.svelte',
+        '/src/routes/archive/[[year]]/+page.svelte',
+        '/src/routes/about/+page.svelte',
+      ],
+    });
+
+    expect(
+      normalizedRoutes.map(({ sitemap, source }) => [source.compatibilityKey, sitemap])
+    ).toEqual([
+      ['/about', undefined],
+      ['/archive', { exclude: true }],
+      ['/archive/[[year]]', { exclude: true }],
+      ['/pricing', { changefreq: 'weekly', priority: 0.9 }],
+    ]);
+  });
+
+  it('validates page sitemap exports and keys them by route directory, once per route', () => {
+    expect(
+      collectSvelteKitPageSitemaps({
+        '/src/routes/+page.ts': undefined,
+        '/src/routes/pricing/+page.server.ts': { priority: 0.9 },
+      })
+    ).toEqual({ '/src/routes/pricing': { priority: 0.9 } });
+    expect(() =>
+      collectSvelteKitPageSitemaps({
+        '/src/routes/pricing/+page.server.ts': { priority: 0.9 },
+        '/src/routes/pricing/+page.ts': { exclude: true },
+      })
+    ).toThrow(
+      "super-sitemap: '/src/routes/pricing/+page.server.ts' and '/src/routes/pricing/+page.ts' both export `sitemap`. Export it from one page module."
+    );
+    expect(() =>
+      collectSvelteKitPageSitemaps({ '/src/routes/pricing/+page.ts': { changefreq: 'often' } })
+    ).toThrow(
+      "super-sitemap: `sitemap.changefreq` exported from '/src/routes/pricing/+page.ts' must be one of"
+    );
+    expect(() =>
+      createSvelteKitNormalizedRoutes({
+        pageSitemaps: { '/src/routes/pricing': { priority: 2 as never } },
+        routeFiles: ['/src/routes/pricing/+page.svelte'],
+      })
+    ).toThrow(
+      "super-sitemap: `sitemap.priority` exported from '/src/routes/pricing' must be a number from 0.0 to 1.0."
+    );
+  });
 });
@@ -4,17 +4,21 @@ import {
   routeMatchesPattern,
   validateExcludeRoutePatterns,
 } from '../../../core/internal/route-exclusion.js';
+import { validateRouteSitemap } from '../../../core/internal/route-sitemap.js';
 import type {
   LocalesConfig,
   NormalizedRoute,
+  ParamMatchers,
   RouteLocaleSlot,
   RouteParam,
   RouteSegment,
+  RouteSitemap,
 } from '../../../core/internal/types.js';
-import type { CreateSvelteKitNormalizedRoutesOptions } from './types.js';
+import type { CreateSvelteKitNormalizedRoutesOptions, SitemapConfig } from './types.js';
 
 const LOCALE_TOKEN_REGEX = /\/?\[(\[locale(=[a-z]+)?\]|locale(=[a-z]+)?)\]/;
 const LEGACY_LANG_TOKEN_REGEX = /\/?\[(\[lang(=[a-z]+)?\]|lang(=[a-z]+)?)\]/;
+const PARAM_MATCHER_FILE_REGEX = /^\/src\/params\/(\w+)\.(?:js|ts)$/;
 const PAGE_ROUTE_FILE_REGEX = /\/\+page.*\.(svelte|md|svx)$/;
 const PARAM_SEGMENT_REGEX = /^\[(\[?)(\.\.\.)?([^\]=]+)(?:=([^\]]+))?\]?\]$/;
 const ROUTE_GROUP_REGEX = /\/\([^)]+\)/g;
@@ -23,6 +27,7 @@ const SRC_ROUTES_PREFIX = '/src/routes';
 type ConvertToNormalizedRouteOptions = {
   filePath?: string;
   route: string;
+  sitemap?: RouteSitemap;
 };
 
 type ParsedRouteSegment =
@@ -50,9 +55,13 @@ type ParsedRouteSegment =
 export function createSvelteKitNormalizedRoutes({
   excludeRoutePatterns = [],
   locales = { alternates: [], default: 'en' },
+  pageSitemaps = {},
   routeFiles = discoverSvelteKitPageRouteFiles(),
 }: CreateSvelteKitNormalizedRoutesOptions): NormalizedRoute[] {
   validateExcludeRoutePatterns(excludeRoutePatterns);
+  for (const [routeDir, sitemap] of Object.entries(pageSitemaps)) {
+    validateRouteSitemap(sitemap, routeDir);
+  }
   validateSvelteKitLocaleConfig(routeFiles, locales);
 
   const routeEntries = routeFiles
@@ -76,7 +85,13 @@ export function createSvelteKitNormalizedRoutes({
     );
 
   return deduplicateNormalizedRoutesByCompatibilityKey(
-    routeEntries.map(({ filePath, route }) => convertToNormalizedRoute({ filePath, route }))
+    routeEntries.map(({ filePath, route }) =>
+      convertToNormalizedRoute({
+        filePath,
+        route,
+        sitemap: pageSitemaps[getRouteDir(filePath)],
+      })
+    )
   );
 }
 
@@ -92,6 +107,103 @@ export function discoverSvelteKitPageRouteFiles(): string[] {
   return svelteRoutes.concat(mdRoutes, svxRoutes);
 }
 
+/**
+ * Discovers the `sitemap` exports of SvelteKit page modules (`+page.ts` and
+ * `+page.server.ts`, or `.js`) using Vite's eager glob imports, keyed by route
+ * directory, e.g. `/src/routes/blog/[slug]`.
+ *
+ * @remarks
+ * Whole modules are imported: a glob importing only `sitemap` fails the build
+ * for every page module that doesn't export it.
+ */
+export function discoverSvelteKitPageSitemaps(): Record<string, RouteSitemap> {
+  const modules = import.meta.glob<{ sitemap?: unknown }>(
+    ['/src/routes/**/+page.{js,ts}', '/src/routes/**/+page.server.{js,ts}'],
+    { eager: true }
+  );
+
+  return collectSvelteKitPageSitemaps(
+    Object.fromEntries(
+      Object.entries(modules).map(([filePath, { sitemap }]) => [filePath, sitemap])
+    )
+  );
+}
+
+/**
+ * Validates the `sitemap` exports of SvelteKit page modules and keys them by
+ * route directory. A route may export `sitemap` from only one of its page
+ * modules.
+ *
+ * @param sitemapsByFilePath - Each page module's `sitemap` export, or
+ *                             `undefined`, by `/src/routes/...` path.
+ */
+export function collectSvelteKitPageSitemaps(
+  sitemapsByFilePath: Record<string, unknown>
+): Record<string, RouteSitemap> {
+  const sitemapsByRouteDir: Record<string, RouteSitemap> = {};
+  const filePathsByRouteDir: Record<string, string> = {};
+
+  for (const [filePath, sitemap] of Object.entries(sitemapsByFilePath)) {
+    if (sitemap === undefined) continue;
+
+    validateRouteSitemap(sitemap, filePath);
+    const routeDir = getRouteDir(filePath);
+    const existingFilePath = filePathsByRouteDir[routeDir];
+
+    if (existingFilePath !== undefined) {
+      throw new Error(
+        `super-sitemap: '${existingFilePath}' and '${filePath}' both export \`sitemap\`. Export it from one page module.`
+      );
+    }
+
+    filePathsByRouteDir[routeDir] = filePath;
+    sitemapsByRouteDir[routeDir] = sitemap;
+  }
+
+  return sitemapsByRouteDir;
+}
+
+/**
+ * Discovers the app's param matchers in `src/params` using Vite's eager glob
+ * imports, keyed by matcher name. Files that are not valid matcher names, such
+ * as `integer.test.ts`, are skipped.
+ */
+export function discoverSvelteKitParamMatchers(): ParamMatchers {
+  const modules = import.meta.glob<ParamMatchers[string]>('/src/params/*.{js,ts}', {
+    eager: true,
+    import: 'match',
+  });
+
+  return Object.fromEntries(
+    Object.entries(modules).flatMap(([filePath, match]) => {
+      const name = PARAM_MATCHER_FILE_REGEX.exec(filePath)?.[1];
+      return name !== undefined && typeof match === 'function' ? [[name, match]] : [];
+    })
+  );
+}
+
+/**
+ * Fills in what the adapter discovers from the app's modules when the config
+ * leaves it unset: param matchers and route-level `sitemap` exports.
+ *
+ * @remarks
+ * Both are discovered only alongside route file discovery. Config with
+ * `routeFiles` runs outside Vite, where `import.meta.glob` is unavailable, so
+ * it must pass `matchers` and `pageSitemaps` itself. The CLI and Vite plugin
+ * do, reading them from disk.
+ */
+export function withSvelteKitRouteModules<
+  Config extends Pick<SitemapConfig, 'matchers' | 'pageSitemaps' | 'routeFiles'>,
+>(config: Config): Config {
+  if (config.routeFiles !== undefined) return config;
+
+  return {
+    ...config,
+    matchers: config.matchers ?? discoverSvelteKitParamMatchers(),
+    pageSitemaps: config.pageSitemaps ?? discoverSvelteKitPageSitemaps(),
+  };
+}
+
 /**
  * Converts a SvelteKit page route file path into the route key shape used by
  * adapter config such as paramValues and excludeRoutePatterns.
@@ -172,6 +284,7 @@ export function findSvelteKitLocaleToken(): RegExp {
 export function convertToNormalizedRoute({
   filePath,
   route,
+  sitemap,
 }: ConvertToNormalizedRouteOptions): NormalizedRoute {
   const segments: RouteSegment[] = [];
   const params: RouteParam[] = [];
@@ -221,6 +334,7 @@ export function convertToNormalizedRoute({
     locale,
     params,
     segments,
+    ...(sitemap === undefined ? {} : { sitemap }),
     source: {
       adapter: 'sveltekit',
       compatibilityKey: route,
@@ -288,3 +402,11 @@ function parseRouteSegment(segment: string): ParsedRouteSegment {
     rest: match[2] === '...',
   };
 }
+
+/**
+ * Returns the route directory of a page file, e.g. `/src/routes/blog` for
+ * `/src/routes/blog/+page.ts`.
+ */
+function getRouteDir(filePath: string): string {
+  return filePath.slice(0, filePath.lastIndexOf('/'));
+}
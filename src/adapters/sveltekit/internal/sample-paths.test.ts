@@ -13,8 +13,8 @@ describe('SvelteKit adapter sample paths', () => {
     '/src/routes/rankings/[country]/[state]/+page.svelte',
   ];
 
-  it('returns one sample path per sitemap-published route shape', () => {
-    const paths = getSamplePathsFromRouteFiles({
+  it('returns one sample path per sitemap-published route shape', async () => {
+    const paths = await getSamplePathsFromRouteFiles({
       sitemapConfig: {
         additionalPaths: ['/manual.pdf'],
         origin: 'https://example.com',
@@ -40,8 +40,8 @@ describe('SvelteKit adapter sample paths', () => {
     ]);
   });
 
-  it('ignores routes and additional paths that are not present in the final sitemap paths', () => {
-    const paths = getSamplePathsFromRouteFiles({
+  it('ignores routes and additional paths that are not present in the final sitemap paths', async () => {
+    const paths = await getSamplePathsFromRouteFiles({
       sitemapConfig: {
         additionalPaths: ['/manual.pdf'],
         excludeRoutePatterns: [/^\/dashboard$/],
@@ -53,23 +53,23 @@ describe('SvelteKit adapter sample paths', () => {
     expect(paths).toEqual(['/about']);
   });
 
-  it('samples after processPaths and preserves the prepared sitemap order', () => {
+  it('samples after processPaths and preserves the prepared sitemap order', async () => {
     const sitemapConfig = {
       origin: 'https://example.com',
       processPaths: (paths: PathObj[]) => [...paths].reverse(),
       routeFiles: ['/src/routes/zeta/+page.svelte', '/src/routes/alpha/+page.svelte'],
     };
 
-    expect(getSamplePathsFromRouteFiles({ sitemapConfig })).toEqual(['/zeta', '/alpha']);
+    expect(await getSamplePathsFromRouteFiles({ sitemapConfig })).toEqual(['/zeta', '/alpha']);
     expect(
-      getSamplePathsFromRouteFiles({ sitemapConfig: { ...sitemapConfig, sort: 'alpha' } })
+      await getSamplePathsFromRouteFiles({ sitemapConfig: { ...sitemapConfig, sort: 'alpha' } })
     ).toEqual(['/alpha', '/zeta']);
   });
 
-  it('canonicalizes paths before deduping and sampling localized variants', () => {
+  it('canonicalizes paths before deduping and sampling localized variants', async () => {
     const stripLocalePrefix = (path: string) => path.replace(/^\/(?:de|es)(?=\/|$)/, '') || '/';
 
-    const paths = getSamplePathsFromRouteFiles({
+    const paths = await getSamplePathsFromRouteFiles({
       getCanonicalPath: stripLocalePrefix,
       sitemapConfig: {
         origin: 'https://example.com',
@@ -90,8 +90,8 @@ describe('SvelteKit adapter sample paths', () => {
     expect(paths).toEqual(['/contact']);
   });
 
-  it('matches static routes before dynamic sibling routes', () => {
-    const paths = getSamplePathsFromRouteFiles({
+  it('matches static routes before dynamic sibling routes', async () => {
+    const paths = await getSamplePathsFromRouteFiles({
       sitemapConfig: {
         origin: 'https://example.com',
         paramValues: {
@@ -105,8 +105,8 @@ describe('SvelteKit adapter sample paths', () => {
     expect(paths).toEqual(['/about', '/contact']);
   });
 
-  it('supports optional param route variants', () => {
-    const paths = getSamplePathsFromRouteFiles({
+  it('supports optional param route variants', async () => {
+    const paths = await getSamplePathsFromRouteFiles({
       sitemapConfig: {
         origin: 'https://example.com',
         paramValues: {
@@ -119,15 +119,15 @@ describe('SvelteKit adapter sample paths', () => {
     expect(paths).toEqual(['/blog', '/blog/tech']);
   });
 
-  it('supports optional and required locale route mappings while sampling once per route', () => {
-    const optionalLocalePaths = getSamplePathsFromRouteFiles({
+  it('supports optional and required locale route mappings while sampling once per route', async () => {
+    const optionalLocalePaths = await getSamplePathsFromRouteFiles({
       sitemapConfig: {
         locales: { alternates: ['de'], default: 'en' },
         origin: 'https://example.com',
         routeFiles: ['/src/routes/[[locale]]/about/+page.svelte'],
       },
     });
-    const requiredLocalePaths = getSamplePathsFromRouteFiles({
+    const requiredLocalePaths = await getSamplePathsFromRouteFiles({
       getCanonicalPath: (path) => path.replace(/^\/(?:de|en)(?=\/|$)/, '') || '/',
       sitemapConfig: {
         locales: { alternates: ['de'], default: 'en' },
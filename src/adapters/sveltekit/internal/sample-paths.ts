@@ -1,5 +1,5 @@
 import { getFrameworkAdapterSamplePaths } from '../../../core/internal/framework-adapter.js';
-import { createSvelteKitNormalizedRoutes } from './routes.js';
+import { createSvelteKitNormalizedRoutes, withSvelteKitRouteModules } from './routes.js';
 import type { GetSamplePathsOptions } from './types.js';
 
 /**
@@ -32,12 +32,12 @@ import type { GetSamplePathsOptions } from './types.js';
  * @param options - Sample path options.
  * @returns Canonical root-relative sample paths.
  */
-export function getSamplePaths({
+export async function getSamplePaths({
   getCanonicalPath,
   sitemapConfig,
-}: GetSamplePathsOptions): string[] {
+}: GetSamplePathsOptions): Promise<string[]> {
   return getFrameworkAdapterSamplePaths({
-    config: sitemapConfig,
+    config: withSvelteKitRouteModules(sitemapConfig),
     createNormalizedRoutes: createSvelteKitNormalizedRoutes,
     getCanonicalPath,
   });
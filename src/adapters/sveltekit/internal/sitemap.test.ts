@@ -3,8 +3,8 @@ import { describe, expect, it } from 'vitest';
 import { getBody, getHeaders, prepareSitemapPaths, response } from './sitemap.js';
 
 describe('SvelteKit adapter sitemap paths', () => {
-  it('preserves deterministic default ordering without alpha sorting', () => {
-    const paths = prepareSitemapPaths({
+  it('preserves deterministic default ordering without alpha sorting', async () => {
+    const paths = await prepareSitemapPaths({
       paramValues: {
         '/blog/[slug]': ['hello-world', 'another-post'],
       },
@@ -50,8 +50,8 @@ describe('SvelteKit adapter response wrapper', () => {
     expect(locsFromXml(xml)).toEqual(['/', '/about']);
   });
 
-  it('exports body and header helpers for framework-specific response wrappers', () => {
-    const xml = getBody({
+  it('exports body and header helpers for framework-specific response wrappers', async () => {
+    const xml = await getBody({
       additionalPaths: ['/', '/about'],
       origin: 'https://example.com',
     });
@@ -72,8 +72,8 @@ describe('SvelteKit adapter response wrapper', () => {
     });
   });
 
-  it('interpolates dynamic, metadata, and defaults without SvelteKit syntax', () => {
-    const paths = prepareSitemapPaths({
+  it('interpolates dynamic, metadata, and defaults without SvelteKit syntax', async () => {
+    const paths = await prepareSitemapPaths({
       defaultChangefreq: 'daily',
       defaultPriority: 0.7,
       paramValues: {
@@ -123,22 +123,40 @@ describe('SvelteKit adapter response wrapper', () => {
     }
   });
 
-  it('requires paramValues for parameterized routes and reports SvelteKit-specific unknown keys', () => {
-    expect(() =>
+  it('requires paramValues for parameterized routes and reports SvelteKit-specific unknown keys', async () => {
+    await expect(
       prepareSitemapPaths({
         routeFiles: ['/src/routes/blog/[slug]/+page.svelte'],
       })
-    ).toThrow("super-sitemap: paramValues not provided for route: '/blog/[slug]'.");
-    expect(() =>
+    ).rejects.toThrow("super-sitemap: paramValues not provided for route: '/blog/[slug]'.");
+    await expect(
       prepareSitemapPaths({
         paramValues: { '/missing/[slug]': ['hello-world'] },
         routeFiles: ['/src/routes/blog/[slug]/+page.svelte'],
       })
-    ).toThrow(
+    ).rejects.toThrow(
       "super-sitemap: paramValues were provided for a route that does not exist: '/missing/[slug]'."
     );
   });
 
+  it('rejects paramValues that the route param matcher would 404', async () => {
+    const config = {
+      matchers: { integer: (param: string) => /^\d+$/.test(param) },
+      routeFiles: ['/src/routes/blog/[page=integer]/+page.svelte'],
+    };
+
+    expect(
+      (
+        await prepareSitemapPaths({ ...config, paramValues: { '/blog/[page=integer]': ['2'] } })
+      ).map(({ path }) => path)
+    ).toEqual(['/blog/2']);
+    await expect(
+      prepareSitemapPaths({ ...config, paramValues: { '/blog/[page=integer]': ['latest'] } })
+    ).rejects.toThrow(
+      "super-sitemap: paramValues for route '/blog/[page=integer]' include 'latest' for param 'page', which the 'integer' param matcher rejects"
+    );
+  });
+
   it('includes additional paths, processPaths, pagination statuses, and locale routes', async () => {
     const res = await response({
       additionalPaths: ['manual.pdf', '/about'],
@@ -171,7 +189,7 @@ describe('SvelteKit adapter response wrapper', () => {
     expect(invalidRes.status).toBe(400);
     expect(await invalidRes.text()).toBe('Invalid page param');
 
-    const localePaths = prepareSitemapPaths({
+    const localePaths = await prepareSitemapPaths({
       locales: { alternates: ['de'], default: 'en' },
       routeFiles: ['/src/routes/[[locale]]/about/+page.svelte'],
     });
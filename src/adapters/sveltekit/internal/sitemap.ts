@@ -1,20 +1,24 @@
 import {
   getFrameworkAdapterBody,
+  getFrameworkAdapterFiles,
   getFrameworkAdapterResponse,
   prepareFrameworkAdapterPaths,
 } from '../../../core/internal/framework-adapter.js';
+import type { SitemapFile } from '../../../core/internal/sitemap.js';
 import type { PathObj } from '../../../core/internal/types.js';
-import { createSvelteKitNormalizedRoutes } from './routes.js';
-import type { InternalSvelteKitSitemapConfig, SitemapConfig } from './types.js';
+import { createSvelteKitNormalizedRoutes, withSvelteKitRouteModules } from './routes.js';
+import type { SitemapConfig } from './types.js';
 
 export { getHeaders } from '../../../core/internal/sitemap.js';
+export { robots } from '../../../core/internal/robots.js';
+export { stylesheetResponse } from '../../../core/internal/stylesheet.js';
 
 /**
  * Generates an XML sitemap or sitemap index response body from SvelteKit route files.
  */
-export function getBody(config: SitemapConfig): string {
+export async function getBody(config: SitemapConfig): Promise<string> {
   return getFrameworkAdapterBody({
-    config,
+    config: withSvelteKitRouteModules(config),
     createNormalizedRoutes: createSvelteKitNormalizedRoutes,
   });
 }
@@ -24,7 +28,18 @@ export function getBody(config: SitemapConfig): string {
  */
 export async function response(config: SitemapConfig): Promise<Response> {
   return getFrameworkAdapterResponse({
-    config,
+    config: withSvelteKitRouteModules(config),
+    createNormalizedRoutes: createSvelteKitNormalizedRoutes,
+  });
+}
+
+/**
+ * Generates every static sitemap file from SvelteKit route files, for build-time tooling
+ * such as the `super-sitemap generate` CLI.
+ */
+export async function getFiles(config: SitemapConfig): Promise<SitemapFile[]> {
+  return getFrameworkAdapterFiles({
+    config: withSvelteKitRouteModules(config),
     createNormalizedRoutes: createSvelteKitNormalizedRoutes,
   });
 }
@@ -38,11 +53,11 @@ export async function response(config: SitemapConfig): Promise<Response> {
  * this helper to assert adapter path generation directly before pagination and
  * XML rendering.
  */
-export function prepareSitemapPaths(
-  config: Omit<InternalSvelteKitSitemapConfig, 'headers' | 'maxPerPage' | 'origin' | 'page'>
-): PathObj[] {
+export async function prepareSitemapPaths(
+  config: Omit<SitemapConfig, 'headers' | 'maxPerPage' | 'origin' | 'page'>
+): Promise<PathObj[]> {
   return prepareFrameworkAdapterPaths({
-    config,
+    config: withSvelteKitRouteModules(config),
     createNormalizedRoutes: createSvelteKitNormalizedRoutes,
   });
 }
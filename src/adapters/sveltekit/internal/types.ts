@@ -3,9 +3,12 @@ import type { GetHeadersOptions } from '../../../core/internal/sitemap.js';
 import type {
   Changefreq,
   LocalesConfig,
+  ParamMatchers,
   ParamValues,
   PathObj,
   Priority,
+  RouteSitemap,
+  SitemapGroup,
 } from '../../../core/internal/types.js';
 
 export type { GetHeadersOptions };
@@ -16,6 +19,7 @@ export type { GetHeadersOptions };
 export type CreateSvelteKitNormalizedRoutesOptions = {
   excludeRoutePatterns?: RegExp[];
   locales?: LocalesConfig;
+  pageSitemaps?: Record<string, RouteSitemap>;
   routeFiles?: string[];
 };
 
@@ -38,11 +42,47 @@ export type SitemapConfig = {
   origin: string;
   page?: string;
 
+  /**
+   * Optional. Restricts localized routes, keyed as in `paramValues`, to the
+   * locales they exist in, e.g. `{ '/[[locale]]/careers': ['en', 'de'] }`.
+   * Other locales get no path and are left out of alternates. A `ParamValue`'s
+   * own `locales` take precedence.
+   */
+  routeLocales?: Record<string, string[]>;
+
+  /**
+   * Optional. Splits the sitemap into named child sitemaps, e.g.
+   * `/sitemap-blog.xml`, listed in a sitemap index. Each path joins the first
+   * group whose `paths` patterns match the path or whose `routes` patterns
+   * match the route key that produced it, including any locale param, e.g.
+   * `/[[locale]]/blog/[slug]`. A group with neither collects all remaining paths.
+   * Groups larger than one page continue at `blog-2`, etc.
+   */
+  groups?: SitemapGroup[];
+
+  /**
+   * Optional. Defaults to `true`, emitting each child sitemap's most recent
+   * `lastmod` in the sitemap index so crawlers can tell which pages changed.
+   * Set to `false` to omit `<lastmod>` from sitemap index entries.
+   */
+  indexLastmod?: boolean;
+
+  /**
+   * Optional. Location of each child sitemap listed in a sitemap index, as a
+   * root-relative path or absolute URL containing `[page]`, or a function of
+   * the 1-based page number (and group name, with `groups`). Defaults to
+   * `/sitemap[page].xml`, `/sitemap-[page].xml` with `groups`, plus `.gz` with
+   * gzip compression. `page` also accepts a location produced by this option,
+   * e.g. `/sitemaps/2.xml`.
+   */
+  pageLoc?: string | ((page: number, group?: string) => string);
+
   /**
    * Parameter values for dynamic routes, where the values can be:
    * - `string[]`
    * - `string[][]`
    * - `ParamValue[]`
+   * - a function returning, or resolving to, one of the above
    */
   paramValues?: ParamValues;
 
@@ -64,19 +104,81 @@ export type SitemapConfig = {
 
   processPaths?: (paths: PathObj[]) => PathObj[];
 
+  /**
+   * Optional. Set to `gzip` to have `response()` gzip-compress sitemap bodies
+   * and point sitemap index entries at `/sitemap1.xml.gz`, `/sitemap2.xml.gz`,
+   * etc. Serve the sitemap from matching `.xml.gz` routes. Responses are
+   * the `.gz` files themselves, sent as `application/gzip`.
+   */
+  compression?: 'gzip';
+
+  /**
+   * Optional. Defaults to `xml`. Set to `txt` to render sitemap pages in the
+   * protocol's text format: one absolute URL per line, without metadata or
+   * alternates. Sitemap indexes stay XML and point at `/sitemap1.txt`,
+   * `/sitemap2.txt`, etc. Set to `json` to render `SitemapJson` pages and
+   * indexes, with child pages at `/sitemap1.json`, etc., for internal tooling.
+   * Only `xml` is supported with `sitemapType: 'news'`.
+   */
+  format?: 'json' | 'txt' | 'xml';
+
+  /**
+   * Optional. Defaults to `standard`. Set to `news` to render a Google News
+   * sitemap containing only paths with `news` metadata published within the
+   * last 48 hours, paginated at no more than 1,000 URLs per page.
+   */
+  sitemapType?: 'news' | 'standard';
+
   /**
    * Optional. Defaults to `false`, preserving generated route order, dynamic
    * `paramValues` order, and `additionalPaths` order. Set to `alpha` to sort all
    * paths alphabetically.
    */
   sort?: 'alpha' | false;
-};
 
-/**
- * Internal config used by adapter helpers and tests that inject route files.
- */
-export type InternalSvelteKitSitemapConfig = SitemapConfig & {
+  /**
+   * Optional. Defaults to `false`. Set to `true` to have `response()` stream
+   * sitemap pages as they render instead of building one string, keeping
+   * memory flat for large pages. News sitemaps and sitemap indexes are small
+   * and are always sent as one string.
+   */
+  stream?: boolean;
+
+  /**
+   * Optional. Root-relative path or absolute URL of an XSL stylesheet, added to
+   * sitemaps and sitemap indexes as an `<?xml-stylesheet?>` instruction so
+   * browsers render them as readable tables. Serve `stylesheetResponse()` from
+   * that route for the default stylesheet. Crawlers ignore it.
+   */
+  stylesheet?: string;
+
+  /**
+   * Optional. Page route files in the `/src/routes/.../+page.svelte` shape.
+   * Defaults to discovery with Vite's `import.meta.glob`. Outside Vite, e.g. in
+   * Node scripts, pass `await discoverSvelteKitPageRouteFilesFromDisk()` from
+   * `super-sitemap/sveltekit/node`.
+   */
   routeFiles?: string[];
+
+  /**
+   * Optional. Param matchers by name, e.g. `{ integer: match }` for routes such
+   * as `/blog/[page=integer]`. Defaults to the app's `src/params` matchers when
+   * `routeFiles` is discovered. Outside Vite, pass
+   * `await discoverSvelteKitParamMatchersFromDisk()` from
+   * `super-sitemap/sveltekit/node`. `paramValues` a matcher rejects would 404,
+   * so they throw an error naming the route, param, and value.
+   */
+  matchers?: ParamMatchers;
+
+  /**
+   * Optional. Route-level `sitemap` exports of page modules, keyed by route
+   * directory, e.g. `{ '/src/routes/pricing': { priority: 0.9 } }`. Defaults to
+   * importing `sitemap` from each `+page.ts` and `+page.server.ts` when
+   * `routeFiles` is discovered. Outside Vite, pass
+   * `await discoverSvelteKitPageSitemapsFromDisk()` from
+   * `super-sitemap/sveltekit/node`.
+   */
+  pageSitemaps?: Record<string, RouteSitemap>;
 };
 
 export type GetSamplePathsOptions = BaseGetSamplePathsOptions<SitemapConfig>;
@@ -23,6 +23,8 @@ describe('TanStack Start package API', () => {
     expect(tanStackStart.getBody).toBeTypeOf('function');
     expect(tanStackStart.getHeaders).toBeTypeOf('function');
     expect(tanStackStart.getSamplePaths).toBeTypeOf('function');
+    expect(tanStackStart.robots).toBeTypeOf('function');
+    expect(tanStackStart.stylesheetResponse).toBeTypeOf('function');
 
     const router = {
       routesByPath: {
@@ -37,7 +39,7 @@ describe('TanStack Start package API', () => {
     };
     const res = await tanStackStart.response(config);
 
-    expect(tanStackStart.getBody(config)).toContain(
+    expect(await tanStackStart.getBody(config)).toContain(
       '<loc>https://example.com/blog/hello-world</loc>'
     );
     expect(
@@ -49,7 +51,9 @@ describe('TanStack Start package API', () => {
       'content-type': 'application/xml',
     });
     expect(await res.text()).toContain('<loc>https://example.com/blog/hello-world</loc>');
-    expect(tanStackStart.getSamplePaths({ sitemapConfig: config })).toEqual(['/blog/hello-world']);
+    expect(await tanStackStart.getSamplePaths({ sitemapConfig: config })).toEqual([
+      '/blog/hello-world',
+    ]);
   });
 
   it('exports TanStack Start config types from the adapter entrypoint', () => {
@@ -73,7 +77,7 @@ describe('TanStack Start package API', () => {
     expect(config.processPaths?.([])).toEqual([pathObj]);
   });
 
-  it('accepts generated TanStack router shapes without a routesByPath index signature', () => {
+  it('accepts generated TanStack router shapes without a routesByPath index signature', async () => {
     interface GeneratedRoutesByPath {
       readonly '/blog/$slug': {
         readonly fullPath: '/blog/$slug';
@@ -106,7 +110,7 @@ describe('TanStack Start package API', () => {
       router: getRouter,
     };
 
-    expect(tanStackStart.getBody(config)).toContain(
+    expect(await tanStackStart.getBody(config)).toContain(
       '<loc>https://example.com/blog/hello-world</loc>'
     );
   });
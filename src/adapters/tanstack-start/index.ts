@@ -4,11 +4,21 @@ export type {
   LocalesConfig,
   ParamValue,
   ParamValues,
+  ParamValuesContext,
   PathObj,
   Priority,
+  RobotsConfig,
+  RobotsRule,
+  SitemapGroup,
+  SitemapImage,
+  SitemapJson,
+  SitemapJsonUrl,
+  SitemapNews,
+  SitemapRoutes,
+  SitemapVideo,
 } from '../../core/internal/types.js';
 export { getSamplePaths } from './internal/sample-paths.js';
-export { getBody, getHeaders, response } from './internal/sitemap.js';
+export { getBody, getHeaders, response, robots, stylesheetResponse } from './internal/sitemap.js';
 export type {
   GetHeadersOptions,
   GetSamplePathsOptions,
@@ -34,8 +34,8 @@ describe('TanStack Start adapter sample paths', () => {
     },
   });
 
-  it('returns one sample path per sitemap-published route shape', () => {
-    const paths = getSamplePaths({
+  it('returns one sample path per sitemap-published route shape', async () => {
+    const paths = await getSamplePaths({
       sitemapConfig: {
         additionalPaths: ['/manual.pdf'],
         origin: 'https://example.com',
@@ -61,8 +61,8 @@ describe('TanStack Start adapter sample paths', () => {
     ]);
   });
 
-  it('ignores routes and additional paths that are not present in the final sitemap paths', () => {
-    const paths = getSamplePaths({
+  it('ignores routes and additional paths that are not present in the final sitemap paths', async () => {
+    const paths = await getSamplePaths({
       sitemapConfig: {
         additionalPaths: ['/manual.pdf'],
         excludeRoutePatterns: [/^\/dashboard$/],
@@ -74,21 +74,21 @@ describe('TanStack Start adapter sample paths', () => {
     expect(paths).toEqual(['/about']);
   });
 
-  it('samples after processPaths and preserves the prepared sitemap order', () => {
+  it('samples after processPaths and preserves the prepared sitemap order', async () => {
     const sitemapConfig = {
       origin: 'https://example.com',
       processPaths: (paths: PathObj[]) => [...paths].reverse(),
       router: routerFromRoutes([{ fullPath: '/alpha' }, { fullPath: '/zeta' }]),
     };
 
-    expect(getSamplePaths({ sitemapConfig })).toEqual(['/zeta', '/alpha']);
-    expect(getSamplePaths({ sitemapConfig: { ...sitemapConfig, sort: 'alpha' } })).toEqual([
+    expect(await getSamplePaths({ sitemapConfig })).toEqual(['/zeta', '/alpha']);
+    expect(await getSamplePaths({ sitemapConfig: { ...sitemapConfig, sort: 'alpha' } })).toEqual([
       '/alpha',
       '/zeta',
     ]);
   });
 
-  it('reads router routes once when sampling paths', () => {
+  it('reads router routes once when sampling paths', async () => {
     let calls = 0;
     const getRouter = () => {
       calls += 1;
@@ -100,7 +100,7 @@ describe('TanStack Start adapter sample paths', () => {
     };
 
     expect(
-      getSamplePaths({
+      await getSamplePaths({
         sitemapConfig: {
           origin: 'https://example.com',
           router: getRouter,
@@ -110,10 +110,10 @@ describe('TanStack Start adapter sample paths', () => {
     expect(calls).toBe(1);
   });
 
-  it('canonicalizes paths before deduping and sampling localized variants', () => {
+  it('canonicalizes paths before deduping and sampling localized variants', async () => {
     const stripLocalePrefix = (path: string) => path.replace(/^\/(?:de|es)(?=\/|$)/, '') || '/';
 
-    const paths = getSamplePaths({
+    const paths = await getSamplePaths({
       getCanonicalPath: stripLocalePrefix,
       sitemapConfig: {
         origin: 'https://example.com',
@@ -134,8 +134,8 @@ describe('TanStack Start adapter sample paths', () => {
     expect(paths).toEqual(['/contact']);
   });
 
-  it('matches static routes before dynamic sibling routes', () => {
-    const paths = getSamplePaths({
+  it('matches static routes before dynamic sibling routes', async () => {
+    const paths = await getSamplePaths({
       sitemapConfig: {
         origin: 'https://example.com',
         paramValues: {
@@ -149,8 +149,8 @@ describe('TanStack Start adapter sample paths', () => {
     expect(paths).toEqual(['/about', '/contact']);
   });
 
-  it('supports optional param route variants', () => {
-    const paths = getSamplePaths({
+  it('supports optional param route variants', async () => {
+    const paths = await getSamplePaths({
       sitemapConfig: {
         origin: 'https://example.com',
         paramValues: {
@@ -163,15 +163,15 @@ describe('TanStack Start adapter sample paths', () => {
     expect(paths).toEqual(['/blog', '/blog/tech']);
   });
 
-  it('supports explicit locale route mappings while sampling once per route', () => {
-    const optionalLocalePaths = getSamplePaths({
+  it('supports explicit locale route mappings while sampling once per route', async () => {
+    const optionalLocalePaths = await getSamplePaths({
       sitemapConfig: {
         locales: { alternates: ['de'], default: 'en' },
         origin: 'https://example.com',
         router: routerFromRoutes([{ fullPath: '/{-$locale}/about' }]),
       },
     });
-    const requiredLocalePaths = getSamplePaths({
+    const requiredLocalePaths = await getSamplePaths({
       getCanonicalPath: (path) => path.replace(/^\/(?:de|en)(?=\/|$)/, '') || '/',
       sitemapConfig: {
         locales: { alternates: ['de'], default: 'en' },
@@ -32,10 +32,10 @@ import type { GetSamplePathsOptions } from './types.js';
  * @param options - Sample path options.
  * @returns Canonical root-relative sample paths.
  */
-export function getSamplePaths({
+export async function getSamplePaths({
   getCanonicalPath,
   sitemapConfig,
-}: GetSamplePathsOptions): string[] {
+}: GetSamplePathsOptions): Promise<string[]> {
   return getFrameworkAdapterSamplePaths({
     config: sitemapConfig,
     createNormalizedRoutes: createTanStackStartNormalizedRoutes,
@@ -19,8 +19,8 @@ function routerFromRoutes(routes: TestRouteRecord[]) {
 }
 
 describe('TanStack Start adapter sitemap paths', () => {
-  it('uses route map keys as normalized routes when router records only have ids', () => {
-    const paths = prepareSitemapPaths({
+  it('uses route map keys as normalized routes when router records only have ids', async () => {
+    const paths = await prepareSitemapPaths({
       paramValues: {
         '/blog/$slug': ['hello-world'],
       },
@@ -34,19 +34,19 @@ describe('TanStack Start adapter sitemap paths', () => {
     expect(paths.map(({ path }) => path)).toEqual(['/blog/hello-world']);
   });
 
-  it('rejects empty route sources through param validation', () => {
-    expect(() =>
+  it('rejects empty route sources through param validation', async () => {
+    await expect(
       prepareSitemapPaths({
         paramValues: { '/missing/$slug': ['hello-world'] },
         router: routerFromRoutes([{ id: '__root__' }]),
       })
-    ).toThrow(
+    ).rejects.toThrow(
       "super-sitemap: paramValues were provided for a route that does not exist: '/missing/$slug'."
     );
   });
 
-  it('preserves deterministic default ordering without alpha sorting', () => {
-    const paths = prepareSitemapPaths({
+  it('preserves deterministic default ordering without alpha sorting', async () => {
+    const paths = await prepareSitemapPaths({
       paramValues: {
         '/tag/$tag': ['red'],
         '/blog/$slug': ['hello-world', 'another-post'],
@@ -140,8 +140,8 @@ describe('TanStack Start adapter response wrapper', () => {
     expect(locsFromXml(await secondRes.text())).toEqual(['/blog/another-post', '/docs/guide']);
   });
 
-  it('exports body and header helpers for framework-specific response wrappers', () => {
-    const xml = getBody({
+  it('exports body and header helpers for framework-specific response wrappers', async () => {
+    const xml = await getBody({
       origin: 'https://example.com',
       router: routerFromRoutes([{ fullPath: '/' }, { fullPath: '/about' }]),
     });
@@ -1,18 +1,22 @@
 import {
   getFrameworkAdapterBody,
+  getFrameworkAdapterFiles,
   getFrameworkAdapterResponse,
   prepareFrameworkAdapterPaths,
 } from '../../../core/internal/framework-adapter.js';
+import type { SitemapFile } from '../../../core/internal/sitemap.js';
 import type { PathObj } from '../../../core/internal/types.js';
 import { createTanStackStartNormalizedRoutes } from './routes.js';
 import type { SitemapConfig } from './types.js';
 
 export { getHeaders } from '../../../core/internal/sitemap.js';
+export { robots } from '../../../core/internal/robots.js';
+export { stylesheetResponse } from '../../../core/internal/stylesheet.js';
 
 /**
  * Generates an XML sitemap or sitemap index response body from TanStack Start routes.
  */
-export function getBody(config: SitemapConfig): string {
+export async function getBody(config: SitemapConfig): Promise<string> {
   return getFrameworkAdapterBody({
     config,
     createNormalizedRoutes: createTanStackStartNormalizedRoutes,
@@ -29,6 +33,17 @@ export async function response(config: SitemapConfig): Promise<Response> {
   });
 }
 
+/**
+ * Generates every static sitemap file from TanStack Start routes, for build-time tooling
+ * such as the `super-sitemap generate` CLI.
+ */
+export async function getFiles(config: SitemapConfig): Promise<SitemapFile[]> {
+  return getFrameworkAdapterFiles({
+    config,
+    createNormalizedRoutes: createTanStackStartNormalizedRoutes,
+  });
+}
+
 /**
  * Test-only helper that returns finalized public sitemap path objects without
  * XML rendering.
@@ -38,9 +53,9 @@ export async function response(config: SitemapConfig): Promise<Response> {
  * this helper to assert adapter path generation directly before pagination and
  * XML rendering.
  */
-export function prepareSitemapPaths(
+export async function prepareSitemapPaths(
   config: Omit<SitemapConfig, 'headers' | 'maxPerPage' | 'origin' | 'page'>
-): PathObj[] {
+): Promise<PathObj[]> {
   return prepareFrameworkAdapterPaths({
     config,
     createNormalizedRoutes: createTanStackStartNormalizedRoutes,
@@ -3,11 +3,14 @@ import { orderNormalizedRoutes } from './route-ordering.js';
 import { selectSamplePaths } from './sample-paths.js';
 import {
   getBody as getCoreBody,
+  getFiles as getCoreFiles,
   preparePaths,
   response as coreResponse,
   type GetBodyOptions,
+  type GetFilesOptions,
   type PreparePathsOptions,
   type ResponseOptions,
+  type SitemapFile,
 } from './sitemap.js';
 import type { NormalizedRoute, ParamValues, PathObj } from './types.js';
 
@@ -52,13 +55,32 @@ export function createOrderedFrameworkRoutes<
 export function getFrameworkAdapterBody<
   Config extends Omit<GetBodyOptions, 'normalizedRoutes'>,
   Route extends NormalizedRoute,
->({ config, createNormalizedRoutes }: FrameworkAdapterOptions<Config, Route>): string {
+>({ config, createNormalizedRoutes }: FrameworkAdapterOptions<Config, Route>): Promise<string> {
   return getCoreBody({
     ...config,
     normalizedRoutes: createOrderedFrameworkRoutes({ config, createNormalizedRoutes }),
   });
 }
 
+/**
+ * Generates every static sitemap file from framework adapter config.
+ *
+ * @param options - Adapter config and route factory.
+ * @returns The root sitemap and, when it is an index, each child sitemap.
+ */
+export function getFrameworkAdapterFiles<
+  Config extends Omit<GetFilesOptions, 'normalizedRoutes'>,
+  Route extends NormalizedRoute,
+>({
+  config,
+  createNormalizedRoutes,
+}: FrameworkAdapterOptions<Config, Route>): Promise<SitemapFile[]> {
+  return getCoreFiles({
+    ...config,
+    normalizedRoutes: createOrderedFrameworkRoutes({ config, createNormalizedRoutes }),
+  });
+}
+
 /**
  * Generates a sitemap response from framework adapter config.
  *
@@ -68,7 +90,7 @@ export function getFrameworkAdapterBody<
 export function getFrameworkAdapterResponse<
   Config extends Omit<ResponseOptions, 'normalizedRoutes'>,
   Route extends NormalizedRoute,
->({ config, createNormalizedRoutes }: FrameworkAdapterOptions<Config, Route>): Response {
+>({ config, createNormalizedRoutes }: FrameworkAdapterOptions<Config, Route>): Promise<Response> {
   return coreResponse({
     ...config,
     normalizedRoutes: createOrderedFrameworkRoutes({ config, createNormalizedRoutes }),
@@ -84,7 +106,7 @@ export function getFrameworkAdapterResponse<
 export function prepareFrameworkAdapterPaths<
   Config extends Omit<PreparePathsOptions, 'normalizedRoutes'>,
   Route extends NormalizedRoute,
->({ config, createNormalizedRoutes }: FrameworkAdapterOptions<Config, Route>): PathObj[] {
+>({ config, createNormalizedRoutes }: FrameworkAdapterOptions<Config, Route>): Promise<PathObj[]> {
   return preparePaths({
     ...config,
     normalizedRoutes: createOrderedFrameworkRoutes({ config, createNormalizedRoutes }),
@@ -97,7 +119,7 @@ export function prepareFrameworkAdapterPaths<
  * @param options - Adapter config, route factory, and optional sample canonicalizer.
  * @returns One canonical sample path per sitemap-published route shape.
  */
-export function getFrameworkAdapterSamplePaths<
+export async function getFrameworkAdapterSamplePaths<
   Config extends Omit<PreparePathsOptions, 'normalizedRoutes'>,
   Route extends NormalizedRoute,
 >({
@@ -106,12 +128,12 @@ export function getFrameworkAdapterSamplePaths<
   getCanonicalPath,
 }: FrameworkAdapterOptions<Config, Route> & {
   getCanonicalPath?: (path: string) => string;
-}): string[] {
+}): Promise<string[]> {
   const normalizedRoutes = createOrderedFrameworkRoutes({ config, createNormalizedRoutes });
 
   return selectSamplePaths({
     getCanonicalPath,
     normalizedRoutes,
-    paths: preparePaths({ ...config, normalizedRoutes }),
+    paths: await preparePaths({ ...config, normalizedRoutes }),
   });
 }
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderSitemapIndexJson, renderSitemapJson } from './json.js';
+
+describe('core JSON sitemap helpers', () => {
+  it('serializes path objects with absolute URLs and only the metadata they set', () => {
+    expect(
+      JSON.parse(
+        renderSitemapJson('https://example.com', [
+          { path: '/' },
+          {
+            alternates: [{ hreflang: 'de', path: '/de/about' }],
+            changefreq: 'daily',
+            images: [{ loc: '/hero.jpg' }],
+            lastmod: '2026-01-01',
+            path: '/about',
+            priority: 0,
+          },
+        ])
+      )
+    ).toEqual({
+      kind: 'urlset',
+      urls: [
+        { loc: 'https://example.com/' },
+        {
+          alternates: [{ hreflang: 'de', loc: 'https://example.com/de/about' }],
+          changefreq: 'daily',
+          lastmod: '2026-01-01',
+          loc: 'https://example.com/about',
+          priority: 0,
+        },
+      ],
+    });
+  });
+
+  it('serializes sitemap index entries, resolving root-relative locations', () => {
+    expect(
+      JSON.parse(
+        renderSitemapIndexJson(
+          'https://example.com',
+          ['/sitemap1.json', 'https://cdn.example.com/sitemap2.json'],
+          ['2026-01-02']
+        )
+      )
+    ).toEqual({
+      kind: 'sitemapindex',
+      sitemaps: [
+        { lastmod: '2026-01-02', loc: 'https://example.com/sitemap1.json' },
+        { loc: 'https://cdn.example.com/sitemap2.json' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import type { PathObj, SitemapJson, SitemapJsonUrl } from './types.js';
+
+/**
+ * Generates a JSON sitemap page body for internal consumers, such as crawlers
+ * and cache warmers, that want structured data instead of XML.
+ *
+ * @param origin - The origin URL. E.g. `https://example.com`. No trailing slash.
+ * @param pathObjs - Array of path objects to include in the sitemap.
+ * @returns The serialized `SitemapJson` urlset.
+ */
+export function renderSitemapJson(origin: string, pathObjs: PathObj[]): string {
+  const json: SitemapJson = {
+    kind: 'urlset',
+    urls: pathObjs.map((pathObj) => toSitemapJsonUrl(origin, pathObj)),
+  };
+
+  return JSON.stringify(json);
+}
+
+/**
+ * Generates a JSON sitemap index body with the same entries as the XML index.
+ *
+ * @param origin - The origin URL. E.g. `https://example.com`. No trailing slash.
+ * @param locs - Root-relative paths or absolute URLs of each child page.
+ * @param lastmods - Each page's most recent lastmod, by page index.
+ * @returns The serialized `SitemapJson` sitemap index.
+ */
+export function renderSitemapIndexJson(
+  origin: string,
+  locs: string[],
+  lastmods: Array<string | undefined> = []
+): string {
+  const json: SitemapJson = {
+    kind: 'sitemapindex',
+    sitemaps: locs.map((loc, index) => ({
+      loc: loc.startsWith('/') ? `${origin}${loc}` : loc,
+      ...(lastmods[index] ? { lastmod: lastmods[index] } : {}),
+    })),
+  };
+
+  return JSON.stringify(json);
+}
+
+/**
+ * Serializes one URL of a JSON sitemap page, as it appears in the `urls` array.
+ */
+export function renderJsonUrl(origin: string, pathObj: PathObj): string {
+  return JSON.stringify(toSitemapJsonUrl(origin, pathObj));
+}
+
+/**
+ * Converts one path object to a JSON sitemap URL with absolute locations,
+ * omitting metadata the path does not set.
+ */
+function toSitemapJsonUrl(
+  origin: string,
+  { alternates, changefreq, lastmod, path, priority }: PathObj
+): SitemapJsonUrl {
+  return {
+    loc: `${origin}${path}`,
+    ...(lastmod ? { lastmod } : {}),
+    ...(changefreq ? { changefreq } : {}),
+    ...(priority !== undefined ? { priority } : {}),
+    ...(alternates
+      ? {
+          alternates: alternates.map((alternate) => ({
+            hreflang: alternate.hreflang,
+            loc: `${alternate.origin ?? origin}${alternate.path}`,
+          })),
+        }
+      : {}),
+  };
+}
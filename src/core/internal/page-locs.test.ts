@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import { createPageLocResolver, matchPageLoc, validatePageLoc } from './page-locs.js';
+
+describe('core page location helpers', () => {
+  it('defaults to numbered sitemap files and follows gzip compression', () => {
+    expect(createPageLocResolver({})(2)).toBe('/sitemap2.xml');
+    expect(createPageLocResolver({ compression: 'gzip' })(2)).toBe('/sitemap2.xml.gz');
+    expect(createPageLocResolver({ format: 'txt' })(2)).toBe('/sitemap2.txt');
+  });
+
+  it('fills the page placeholder in templates and calls functions as-is', () => {
+    expect(createPageLocResolver({ pageLoc: '/sitemaps/[page].xml' })(3)).toBe('/sitemaps/3.xml');
+    expect(
+      createPageLocResolver({
+        compression: 'gzip',
+        pageLoc: (page) => `https://cdn.example.com/sitemap-${page}.xml`,
+      })(3)
+    ).toBe('https://cdn.example.com/sitemap-3.xml');
+  });
+
+  it('matches page params given as root-relative paths or absolute URLs', () => {
+    const options = {
+      getPageLoc: createPageLocResolver({ pageLoc: '/sitemap-[page].xml' }),
+      origin: 'https://example.com',
+      totalPages: 3,
+    };
+
+    expect(matchPageLoc({ ...options, page: '/sitemap-2.xml' })).toBe(2);
+    expect(matchPageLoc({ ...options, page: 'https://example.com/sitemap-3.xml' })).toBe(3);
+    expect(matchPageLoc({ ...options, page: '/sitemap-4.xml' })).toBeUndefined();
+    expect(matchPageLoc({ ...options, page: 'sitemap-2.xml' })).toBeUndefined();
+  });
+
+  it('requires templates to contain the page placeholder and a valid location', () => {
+    expect(() => validatePageLoc('/sitemaps/[page].xml')).not.toThrow();
+    expect(() => validatePageLoc('https://cdn.example.com/[page].xml')).not.toThrow();
+    expect(() => validatePageLoc((page: number) => `/s/${page}.xml`)).not.toThrow();
+
+    for (const pageLoc of ['/sitemaps/1.xml', 'sitemaps/[page].xml', '//cdn/[page].xml', 42]) {
+      expect(() => validatePageLoc(pageLoc)).toThrow(
+        'super-sitemap: `pageLoc` must be a function or a root-relative path or absolute URL containing "[page]", e.g. "/sitemaps/[page].xml".'
+      );
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import type { SitemapConfig } from './types.js';
+
+const PAGE_PLACEHOLDER = '[page]';
+
+/**
+ * Creates the function that returns each child sitemap location of a sitemap
+ * index, from the `pageLoc` config or the default `/sitemap[page].xml`
+ * (`/sitemap-[page].xml` for grouped sitemaps, `.txt` for text sitemaps).
+ *
+ * @param options - Optional `pageLoc` config, response compression and format,
+ *                  and whether the sitemap uses named groups.
+ * @returns A function from a 1-based page number, within a group when given, to
+ *          a root-relative path or absolute URL.
+ */
+export function createPageLocResolver({
+  compression,
+  format = 'xml',
+  grouped = false,
+  pageLoc,
+}: Pick<SitemapConfig, 'compression' | 'format' | 'pageLoc'> & {
+  grouped?: boolean;
+}): (page: number, group?: string) => string {
+  const template =
+    pageLoc ??
+    `/sitemap${grouped ? '-' : ''}${PAGE_PLACEHOLDER}.${format}${compression === 'gzip' ? '.gz' : ''}`;
+
+  return typeof template === 'function'
+    ? template
+    : (page, group) =>
+        template.replaceAll(
+          PAGE_PLACEHOLDER,
+          group === undefined ? String(page) : getGroupPageId(group, page)
+        );
+}
+
+/**
+ * Returns the `page` param value of a grouped sitemap page: the group name for
+ * its first page, then `name-2`, `name-3`, etc., so a group's first URL stays
+ * stable as it grows past one page.
+ */
+export function getGroupPageId(group: string, page: number): string {
+  return page === 1 ? group : `${group}-${page}`;
+}
+
+/**
+ * Finds the page number whose child sitemap location matches a `page` param
+ * given as a location instead of a number, e.g. `/sitemaps/2.xml` or
+ * `https://cdn.example.com/sitemap-2.xml`.
+ *
+ * @remarks
+ * Locations are compared after URL normalization against each existing page,
+ * so template strings and functions are matched the same way.
+ *
+ * @returns The 1-based page number, or `undefined` when no page matches.
+ */
+export function matchPageLoc({
+  getPageLoc,
+  origin,
+  page,
+  totalPages,
+}: {
+  getPageLoc: (page: number) => string;
+  origin: string;
+  page: string;
+  totalPages: number;
+}): number | undefined {
+  const href = toHref(page, origin);
+  if (href === undefined) return undefined;
+
+  for (let pageInt = 1; pageInt <= totalPages; pageInt++) {
+    if (toHref(getPageLoc(pageInt), origin) === href) return pageInt;
+  }
+
+  return undefined;
+}
+
+/**
+ * Validates the child sitemap location config from untyped JavaScript config.
+ */
+export function validatePageLoc(pageLoc: unknown): asserts pageLoc is SitemapConfig['pageLoc'] {
+  if (pageLoc === undefined || typeof pageLoc === 'function') return;
+
+  if (
+    typeof pageLoc !== 'string' ||
+    !pageLoc.includes(PAGE_PLACEHOLDER) ||
+    !(pageLoc.startsWith('/') ? !pageLoc.startsWith('//') : /^https?:\/\//.test(pageLoc))
+  ) {
+    throw new Error(
+      'super-sitemap: `pageLoc` must be a function or a root-relative path or absolute URL containing "[page]", e.g. "/sitemaps/[page].xml".'
+    );
+  }
+}
+
+/**
+ * Normalizes an absolute or root-relative location to a comparable URL string.
+ */
+function toHref(loc: string, origin: string): string | undefined {
+  if (!loc.startsWith('/') && !/^https?:\/\//.test(loc)) return undefined;
+
+  try {
+    return new URL(loc, origin).href;
+  } catch {
+    return undefined;
+  }
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { paginatePaths } from './pagination.js';
+import { getPageStartIndexes, paginatePaths } from './pagination.js';
 
 describe('core pagination helpers', () => {
   it('paginates path arrays and reports invalid or unavailable pages', () => {
@@ -17,4 +17,50 @@ describe('core pagination helpers', () => {
       error: 'not-found',
     });
   });
+
+  it('ends pages at the byte budget as well as the URL count', () => {
+    const paths = [
+      { path: '/a' },
+      { path: '/bbbb' },
+      { path: '/c' },
+      { path: '/d' },
+      { path: '/e' },
+    ];
+    const limits = {
+      maxBytesPerPage: 6,
+      maxPerPage: 2,
+      measurePath: ({ path }: { path: string }) => path.length,
+    };
+
+    // '/a' + '/bbbb' and '/bbbb' + '/c' exceed 6 bytes; '/c' + '/d' fills the count.
+    expect(getPageStartIndexes(paths, limits)).toEqual([0, 1, 2, 4]);
+    expect(paginatePaths({ ...limits, page: '2', paths })).toEqual({
+      error: null,
+      paths: [{ path: '/bbbb' }],
+    });
+    expect(paginatePaths({ ...limits, page: '3', paths })).toEqual({
+      error: null,
+      paths: [{ path: '/c' }, { path: '/d' }],
+    });
+    expect(paginatePaths({ ...limits, page: '4', paths })).toEqual({
+      error: null,
+      paths: [{ path: '/e' }],
+    });
+  });
+
+  it('gives a path larger than the byte budget a page of its own', () => {
+    const paths = [{ path: '/a' }, { path: '/too-large' }, { path: '/b' }];
+    const limits = {
+      maxBytesPerPage: 4,
+      maxPerPage: 50_000,
+      measurePath: ({ path }: { path: string }) => path.length,
+    };
+
+    expect(getPageStartIndexes(paths, limits)).toEqual([0, 1, 2]);
+    expect(paginatePaths({ ...limits, page: '2', paths })).toEqual({
+      error: null,
+      paths: [{ path: '/too-large' }],
+    });
+    expect(getPageStartIndexes([], limits)).toEqual([]);
+  });
 });
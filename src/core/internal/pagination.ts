@@ -1,5 +1,8 @@
 import type { PathObj } from './types.js';
 
+/** The sitemap protocol caps each uncompressed sitemap file at 50 MB. */
+export const MAX_SITEMAP_BYTES = 52_428_800;
+
 export type PaginatedPathsResult =
   | {
       error: 'invalid-page';
@@ -12,30 +15,84 @@ export type PaginatedPathsResult =
       paths: PathObj[];
     };
 
-export function getTotalPages(paths: PathObj[], maxPerPage: number): number {
-  return Math.ceil(paths.length / maxPerPage);
+/**
+ * Per-page limits. A page ends when adding the next path would exceed either
+ * `maxPerPage` URLs or `maxBytesPerPage` bytes as measured by `measurePath`.
+ */
+export type PageLimits = {
+  maxBytesPerPage?: number;
+  maxPerPage: number;
+  measurePath?: (pathObj: PathObj) => number;
+};
+
+/**
+ * Returns the start index of each page.
+ *
+ * @remarks
+ * Without a byte budget, pages split purely by count. With one, each path is
+ * measured once in order, so a path whose own size exceeds the budget still
+ * gets a page of its own rather than an empty page.
+ */
+export function getPageStartIndexes(
+  paths: PathObj[],
+  { maxBytesPerPage, maxPerPage, measurePath }: PageLimits
+): number[] {
+  const startIndexes: number[] = [];
+
+  if (maxBytesPerPage === undefined || measurePath === undefined) {
+    for (let index = 0; index < paths.length; index += maxPerPage) startIndexes.push(index);
+    return startIndexes;
+  }
+
+  let pageBytes = 0;
+  let pageCount = 0;
+
+  for (const [index, pathObj] of paths.entries()) {
+    const pathBytes = measurePath(pathObj);
+
+    if (pageCount === 0 || pageCount === maxPerPage || pageBytes + pathBytes > maxBytesPerPage) {
+      startIndexes.push(index);
+      pageBytes = 0;
+      pageCount = 0;
+    }
+
+    pageBytes += pathBytes;
+    pageCount++;
+  }
+
+  return startIndexes;
 }
 
+/**
+ * Returns the paths of one 1-based page. `matchPage` optionally maps
+ * non-numeric page params, such as child sitemap locations, to page numbers.
+ */
 export function paginatePaths({
-  maxPerPage,
+  matchPage,
   page,
   paths,
-}: {
-  maxPerPage: number;
+  ...limits
+}: PageLimits & {
+  matchPage?: (page: string, totalPages: number) => number | undefined;
   page: string;
   paths: PathObj[];
 }): PaginatedPathsResult {
-  if (!/^[1-9]\d*$/.test(page)) {
+  const isPageNumber = /^[1-9]\d*$/.test(page);
+  if (!isPageNumber && matchPage === undefined) {
     return { error: 'invalid-page' };
   }
 
-  const pageInt = Number(page);
-  if (pageInt > getTotalPages(paths, maxPerPage)) {
+  const startIndexes = getPageStartIndexes(paths, limits);
+  const pageInt = isPageNumber ? Number(page) : matchPage?.(page, startIndexes.length);
+  if (pageInt === undefined) {
+    return { error: 'invalid-page' };
+  }
+  if (pageInt > startIndexes.length) {
     return { error: 'not-found' };
   }
 
   return {
     error: null,
-    paths: paths.slice((pageInt - 1) * maxPerPage, pageInt * maxPerPage),
+    paths: paths.slice(startIndexes[pageInt - 1], startIndexes[pageInt]),
   };
 }
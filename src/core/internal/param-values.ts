@@ -0,0 +1,31 @@
+import type { ParamValues, ParamValuesContext, ResolvedParamValues } from './types.js';
+
+/**
+ * Resolves `paramValues` entries declared as resolver functions.
+ *
+ * @remarks
+ * All resolvers start at once so independent queries run in parallel. Each
+ * receives the request context and its own route key. Resolver errors
+ * propagate unchanged, so framework errors such as SvelteKit's `error(500)`
+ * keep their status.
+ *
+ * @param paramValues - User-supplied param values, possibly containing resolvers.
+ * @param context - Request context passed to each resolver.
+ * @returns Param values with every resolver awaited.
+ */
+export async function resolveParamValues(
+  paramValues: ParamValues,
+  context: Omit<ParamValuesContext, 'route'>
+): Promise<ResolvedParamValues> {
+  const entries = await Promise.all(
+    Object.entries(paramValues).map(
+      async ([key, value]) =>
+        [
+          key,
+          typeof value === 'function' ? await value({ ...context, route: key }) : value,
+        ] as const
+    )
+  );
+
+  return Object.fromEntries(entries);
+}
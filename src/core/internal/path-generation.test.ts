@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest';
 
 import { SitemapRouteParamError, generatePathsFromNormalizedRoutes } from './path-generation.js';
-import type { NormalizedRoute, ParamValues } from './types.js';
+import type { NormalizedRoute, ResolvedParamValues } from './types.js';
 
 const source = (compatibilityKey: string) => ({
   adapter: 'unit',
@@ -148,6 +148,42 @@ describe('core normalized routes', () => {
     ]);
   });
 
+  it('carries ParamValue images and videos to every generated path, including locale variants', () => {
+    const images = [{ caption: 'Red shoe', loc: '/images/red-shoe.jpg' }];
+    const videos = [
+      {
+        contentLoc: '/videos/red-shoe.mp4',
+        description: 'A red shoe.',
+        thumbnailLoc: '/images/red-shoe-video.jpg',
+        title: 'Red shoe',
+      },
+    ];
+    const normalizedRoutes: NormalizedRoute[] = [
+      {
+        id: 'product',
+        locale: { mode: 'optional', paramName: 'locale', segmentIndex: 0 },
+        params: [{ name: 'slug', segmentIndex: 2 }],
+        segments: [
+          { kind: 'locale', name: 'locale' },
+          { kind: 'static', value: 'products' },
+          { kind: 'param', name: 'slug' },
+        ],
+        source: source('product'),
+      },
+    ];
+
+    expect(
+      generatePathsFromNormalizedRoutes({
+        locales: { alternates: ['de'], default: 'en' },
+        normalizedRoutes,
+        paramValues: { product: [{ images, values: ['red-shoe'], videos }] },
+      }).map(({ images, path, videos }) => ({ images, path, videos }))
+    ).toEqual([
+      { images, path: '/products/red-shoe', videos },
+      { images, path: '/de/products/red-shoe', videos },
+    ]);
+  });
+
   it('expands optional and required locale slots from explicit metadata', () => {
     const normalizedRoutes: NormalizedRoute[] = [
       {
@@ -297,6 +333,274 @@ describe('core normalized routes', () => {
     ]);
   });
 
+  it('adds an x-default alternate to every localized URL without adding a path', () => {
+    const normalizedRoutes: NormalizedRoute[] = [
+      {
+        id: 'optional-locale-about',
+        locale: { mode: 'optional', paramName: 'locale', segmentIndex: 0 },
+        segments: [
+          { kind: 'locale', name: 'locale' },
+          { kind: 'static', value: 'about' },
+        ],
+        source: source('optional-locale-about'),
+      },
+      {
+        id: 'contact',
+        segments: [{ kind: 'static', value: 'contact' }],
+        source: source('contact'),
+      },
+    ];
+    const generate = (xDefault: boolean | string) =>
+      generatePathsFromNormalizedRoutes({
+        locales: { alternates: ['de'], default: 'en', xDefault },
+        normalizedRoutes,
+      });
+
+    const paths = generate(true);
+    expect(paths.map(({ path }) => path)).toEqual(['/about', '/de/about', '/contact']);
+    expect(paths[1]?.alternates).toEqual([
+      { hreflang: 'en', path: '/about' },
+      { hreflang: 'de', path: '/de/about' },
+      { hreflang: 'x-default', path: '/about' },
+    ]);
+    expect(paths[2]?.alternates).toBeUndefined();
+
+    expect(generate('de')[0]?.alternates?.at(-1)).toEqual({
+      hreflang: 'x-default',
+      path: '/de/about',
+    });
+    expect(generate('/choose-language')[0]?.alternates?.at(-1)).toEqual({
+      hreflang: 'x-default',
+      path: '/choose-language',
+    });
+    expect(generate(false)[0]?.alternates).toHaveLength(2);
+
+    expect(() => generate('fr')).toThrow(
+      'super-sitemap: `locales.xDefault` must be true, a locale from `locales`, or a root-relative path, e.g. "/choose-language".'
+    );
+  });
+
+  it('builds each locale variant from its translated localeValues', () => {
+    const normalizedRoutes: NormalizedRoute[] = [
+      {
+        id: 'optional-locale-blog-entry',
+        locale: { mode: 'optional', paramName: 'locale', segmentIndex: 0 },
+        params: [{ name: 'slug', segmentIndex: 2 }],
+        segments: [
+          { kind: 'locale', name: 'locale' },
+          { kind: 'static', value: 'blog' },
+          { kind: 'param', name: 'slug' },
+        ],
+        source: source('/[[locale]]/blog/[slug]'),
+      },
+    ];
+    const generate = (localeValues: Record<string, string[]>) =>
+      generatePathsFromNormalizedRoutes({
+        locales: { alternates: ['es', 'de'], default: 'en' },
+        normalizedRoutes,
+        paramValues: { '/[[locale]]/blog/[slug]': [{ localeValues, values: ['hello'] }] },
+      });
+
+    const alternates = [
+      { hreflang: 'en', path: '/blog/hello' },
+      { hreflang: 'es', path: '/es/blog/hola' },
+      { hreflang: 'de', path: '/de/blog/hello' },
+    ];
+    expect(generate({ es: ['hola'] })).toEqual(
+      alternates.map(({ path }) => ({
+        alternates,
+        changefreq: undefined,
+        images: undefined,
+        lastmod: undefined,
+        news: undefined,
+        path,
+        priority: undefined,
+        videos: undefined,
+      }))
+    );
+
+    expect(generate({ en: ['hi'] })[0]?.path).toBe('/blog/hi');
+    expect(() => generate({ fr: ['bonjour'] })).toThrow(
+      "super-sitemap: `localeValues` for route '/[[locale]]/blog/[slug]' include 'fr', which is not in `locales`."
+    );
+    expect(() => generate({ es: ['hola', 'extra'] })).toThrow(SitemapRouteParamError);
+  });
+
+  it('generates only the locales an entry or route exists in', () => {
+    const normalizedRoutes: NormalizedRoute[] = [
+      {
+        id: 'optional-locale-blog-entry',
+        locale: { mode: 'optional', paramName: 'locale', segmentIndex: 0 },
+        params: [{ name: 'slug', segmentIndex: 2 }],
+        segments: [
+          { kind: 'locale', name: 'locale' },
+          { kind: 'static', value: 'blog' },
+          { kind: 'param', name: 'slug' },
+        ],
+        source: source('/[[locale]]/blog/[slug]'),
+      },
+      {
+        id: 'optional-locale-careers',
+        locale: { mode: 'optional', paramName: 'locale', segmentIndex: 0 },
+        segments: [
+          { kind: 'locale', name: 'locale' },
+          { kind: 'static', value: 'careers' },
+        ],
+        source: source('/[[locale]]/careers'),
+      },
+    ];
+    const generate = (routeLocales: Record<string, string[]>, locales?: string[]) =>
+      generatePathsFromNormalizedRoutes({
+        locales: { alternates: ['de', 'fr'], default: 'en', xDefault: true },
+        normalizedRoutes,
+        paramValues: {
+          '/[[locale]]/blog/[slug]': [{ values: ['hello'] }, { locales, values: ['hallo'] }],
+        },
+        routeLocales,
+      });
+
+    const paths = generate({ '/[[locale]]/careers': ['de'] }, ['de', 'fr']);
+    expect(paths.map(({ path }) => path)).toEqual([
+      '/blog/hello',
+      '/de/blog/hello',
+      '/fr/blog/hello',
+      '/de/blog/hallo',
+      '/fr/blog/hallo',
+      '/de/careers',
+    ]);
+    expect(paths[3]?.alternates).toEqual([
+      { hreflang: 'de', path: '/de/blog/hallo' },
+      { hreflang: 'fr', path: '/fr/blog/hallo' },
+    ]);
+    expect(paths[5]?.alternates).toEqual([{ hreflang: 'de', path: '/de/careers' }]);
+
+    expect(() => generate({ '/[[locale]]/careers': ['es'] })).toThrow(
+      "super-sitemap: `routeLocales` for route '/[[locale]]/careers' must be a non-empty array of locales from `locales`."
+    );
+    expect(() => generate({}, [])).toThrow(
+      "super-sitemap: `locales` for route '/[[locale]]/blog/[slug]' must be a non-empty array of locales from `locales`."
+    );
+    expect(() => generate({ '/missing': ['en'] })).toThrow(
+      "super-sitemap: `routeLocales` were provided for a route that does not exist: '/missing'."
+    );
+  });
+
+  it("serves each locale from its own origin and lists only the origin's locale paths", () => {
+    const normalizedRoutes: NormalizedRoute[] = [
+      {
+        id: 'blog-entry',
+        params: [{ name: 'slug', segmentIndex: 1 }],
+        segments: [
+          { kind: 'static', value: 'blog' },
+          { kind: 'param', name: 'slug' },
+        ],
+        source: source('/blog/[slug]'),
+      },
+    ];
+    const locales = {
+      alternates: ['de', 'fr'],
+      default: 'en',
+      origins: {
+        de: 'https://example.de',
+        en: 'https://example.com',
+        fr: 'https://fr.example.com',
+      },
+      xDefault: true,
+    };
+    const generate = (origin: string) =>
+      generatePathsFromNormalizedRoutes({
+        locales,
+        normalizedRoutes,
+        origin,
+        paramValues: {
+          '/blog/[slug]': [{ localeValues: { de: ['hallo'] }, values: ['hello'] }],
+        },
+      });
+
+    const alternates = [
+      { hreflang: 'en', origin: 'https://example.com', path: '/blog/hello' },
+      { hreflang: 'de', origin: 'https://example.de', path: '/blog/hallo' },
+      { hreflang: 'fr', origin: 'https://fr.example.com', path: '/blog/hello' },
+      { hreflang: 'x-default', origin: 'https://example.com', path: '/blog/hello' },
+    ];
+    expect(
+      generate('https://example.de').map(({ alternates, path }) => ({ alternates, path }))
+    ).toEqual([{ alternates, path: '/blog/hallo' }]);
+    expect(generate('https://fr.example.com').map(({ path }) => path)).toEqual(['/blog/hello']);
+
+    expect(() => generate('https://example.org')).toThrow(
+      "super-sitemap: `origin` 'https://example.org' must be one of the `locales.origins` values."
+    );
+    expect(() =>
+      generatePathsFromNormalizedRoutes({
+        locales: { ...locales, origins: { de: 'https://example.de/', en: 'https://example.com' } },
+        normalizedRoutes,
+        origin: 'https://example.com',
+        paramValues: { '/blog/[slug]': ['hello'] },
+      })
+    ).toThrow('`locales.origins` must map every locale to an absolute URL origin');
+  });
+
+  it('emits mapped BCP 47 hreflang values instead of path locale tokens', () => {
+    const normalizedRoutes: NormalizedRoute[] = [
+      {
+        id: 'required-locale-about',
+        locale: { mode: 'required', paramName: 'locale', segmentIndex: 0 },
+        segments: [
+          { kind: 'locale', name: 'locale' },
+          { kind: 'static', value: 'about' },
+        ],
+        source: source('/[locale]/about'),
+      },
+    ];
+    const generate = (hreflang: Record<string, string | string[]>) =>
+      generatePathsFromNormalizedRoutes({
+        locales: { alternates: ['uk'], default: 'us', hreflang, xDefault: true },
+        normalizedRoutes,
+      });
+
+    const paths = generate({ uk: ['en-GB', 'en-IE'], us: 'en-US' });
+    expect(paths.map(({ path }) => path)).toEqual(['/us/about', '/uk/about']);
+    expect(paths[0]?.alternates).toEqual([
+      { hreflang: 'en-US', path: '/us/about' },
+      { hreflang: 'en-GB', path: '/uk/about' },
+      { hreflang: 'en-IE', path: '/uk/about' },
+      { hreflang: 'x-default', path: '/us/about' },
+    ]);
+
+    expect(() => generate({ uk: 'en_GB' })).toThrow(
+      "super-sitemap: `locales.hreflang` value 'en_GB' for 'uk' must be a BCP 47 language tag, e.g. \"en-GB\"."
+    );
+    expect(() => generate({ ca: 'en-CA' })).toThrow(
+      "super-sitemap: `locales.hreflang` maps 'ca', which is not in `locales`."
+    );
+    expect(() => generate({ uk: [] })).toThrow(
+      "super-sitemap: `locales.hreflang` for 'uk' must include at least one hreflang value."
+    );
+  });
+
+  it('rejects hreflang values shared by more than one locale', () => {
+    const generate = (hreflang: Record<string, string | string[]>) =>
+      generatePathsFromNormalizedRoutes({
+        locales: { alternates: ['uk'], default: 'us', hreflang },
+        normalizedRoutes: [
+          {
+            id: 'home',
+            locale: { mode: 'required', paramName: 'locale', segmentIndex: 0 },
+            segments: [{ kind: 'locale', name: 'locale' }],
+            source: source('/[locale]'),
+          },
+        ],
+      });
+
+    expect(() => generate({ uk: ['en-GB', 'en'], us: ['en-US', 'en'] })).toThrow(
+      "super-sitemap: `locales.hreflang` value 'en' is used by both 'us' and 'uk'. Each hreflang value must point to one locale."
+    );
+    expect(() => generate({ uk: 'US' })).toThrow(
+      "super-sitemap: `locales.hreflang` value 'US' is used by both 'us' and 'uk'."
+    );
+  });
+
   it('uses source metadata for core validation errors', () => {
     const normalizedRoutes: NormalizedRoute[] = [
       {
@@ -382,7 +686,7 @@ describe('core normalized routes', () => {
       const error = captureError(() =>
         generatePathsFromNormalizedRoutes({
           normalizedRoutes,
-          paramValues: { '/blog/$slug': value } as unknown as ParamValues,
+          paramValues: { '/blog/$slug': value } as unknown as ResolvedParamValues,
         })
       );
 
@@ -508,6 +812,99 @@ describe('core normalized routes', () => {
     });
   });
 
+  it('applies route-level sitemap metadata as defaults and exclusions', () => {
+    const normalizedRoutes: NormalizedRoute[] = [
+      {
+        id: 'pricing',
+        segments: [{ kind: 'static', value: 'pricing' }],
+        sitemap: { changefreq: 'weekly', priority: 0.9 },
+        source: source('/pricing'),
+      },
+      {
+        id: 'blog-entry',
+        params: [{ name: 'slug', segmentIndex: 1 }],
+        segments: [
+          { kind: 'static', value: 'blog' },
+          { kind: 'param', name: 'slug' },
+        ],
+        sitemap: { priority: 0.8 },
+        source: source('/blog/[slug]'),
+      },
+      {
+        id: 'drafts',
+        params: [{ name: 'slug', segmentIndex: 1 }],
+        segments: [
+          { kind: 'static', value: 'drafts' },
+          { kind: 'param', name: 'slug' },
+        ],
+        sitemap: { exclude: true },
+        source: source('/drafts/[slug]'),
+      },
+    ];
+
+    expect(
+      generatePathsFromNormalizedRoutes({
+        defaultChangefreq: 'daily',
+        defaultPriority: 0.5,
+        normalizedRoutes,
+        paramValues: {
+          '/blog/[slug]': [{ values: ['hello'] }, { priority: 0.3, values: ['world'] }],
+        },
+      }).map(({ changefreq, path, priority }) => ({ changefreq, path, priority }))
+    ).toEqual([
+      { changefreq: 'weekly', path: '/pricing', priority: 0.9 },
+      { changefreq: 'daily', path: '/blog/hello', priority: 0.8 },
+      { changefreq: 'daily', path: '/blog/world', priority: 0.3 },
+    ]);
+  });
+
+  it('rejects paramValues that a param matcher rejects, including locale values', () => {
+    const normalizedRoutes: NormalizedRoute[] = [
+      {
+        id: 'blog-page',
+        params: [{ matcher: 'integer', name: 'page', segmentIndex: 1 }],
+        segments: [
+          { kind: 'static', value: 'blog' },
+          { kind: 'param', name: 'page' },
+        ],
+        source: source('/blog/[page=integer]'),
+      },
+    ];
+    const generate = (paramValues: ResolvedParamValues) =>
+      generatePathsFromNormalizedRoutes({
+        matchers: { integer: (param) => /^\d+$/.test(param) },
+        normalizedRoutes,
+        paramValues,
+      }).map(({ path }) => path);
+
+    expect(generate({ '/blog/[page=integer]': ['1', '2'] })).toEqual(['/blog/1', '/blog/2']);
+
+    const error = captureError(() => generate({ '/blog/[page=integer]': ['1', 'two'] }));
+    expect(error).toBeInstanceOf(SitemapRouteParamError);
+    expect(error).toMatchObject({
+      code: 'param-matcher-mismatch',
+      matcher: 'integer',
+      message:
+        "paramValues for route '/blog/[page=integer]' include 'two' for param 'page', which the 'integer' param matcher rejects, so the page would 404. Remove the value or update the matcher.",
+      paramName: 'page',
+      route: '/blog/[page=integer]',
+      value: 'two',
+    });
+
+    expect(() =>
+      generatePathsFromNormalizedRoutes({
+        normalizedRoutes,
+        paramValues: { '/blog/[page=integer]': ['two'] },
+      })
+    ).not.toThrow();
+    expect(() =>
+      generatePathsFromNormalizedRoutes({
+        matchers: { integer: 'not a function' } as never,
+        normalizedRoutes,
+      })
+    ).toThrow('super-sitemap: `matchers` must be an object of param matcher functions');
+  });
+
   it('handles large string arrays and ParamValue arrays without stack overflow', () => {
     const normalizedRoutes: NormalizedRoute[] = [
       {
@@ -530,7 +927,7 @@ describe('core normalized routes', () => {
       },
     ];
     const size = 20_000;
-    const paramValues: ParamValues = {
+    const paramValues: ResolvedParamValues = {
       'large-objects': Array.from({ length: size }, (_, index) => ({
         values: [`item-${index}`],
       })),
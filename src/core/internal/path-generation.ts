@@ -3,9 +3,11 @@ import type {
   Alternate,
   LocalesConfig,
   NormalizedRoute,
+  ParamMatchers,
   ParamValue,
-  ParamValues,
+  ParamValueEntries,
   PathObj,
+  ResolvedParamValues,
   RouteParam,
   RouteSegment,
   SitemapConfig,
@@ -15,8 +17,19 @@ type GenerateNormalizedRoutePathsOptions = {
   defaultChangefreq?: SitemapConfig['defaultChangefreq'];
   defaultPriority?: SitemapConfig['defaultPriority'];
   locales?: LocalesConfig;
+  matchers?: ParamMatchers;
   normalizedRoutes: NormalizedRoute[];
-  paramValues?: ParamValues;
+  origin?: string;
+  paramValues?: ResolvedParamValues;
+  routeLocales?: Record<string, string[]>;
+};
+
+/**
+ * Locales config after normalization. `originLocale` is the locale served by
+ * the sitemap's origin when locales are served from their own origins.
+ */
+type ResolvedLocales = LocalesConfig & {
+  originLocale?: string;
 };
 
 type ParamValueCountMismatchDetails = {
@@ -25,11 +38,18 @@ type ParamValueCountMismatchDetails = {
   receivedValueCount: number;
 };
 
+type ParamMatcherMismatchDetails = {
+  matcher: string;
+  paramName: string;
+  value: string;
+};
+
 type ParamValueEntryShape = 'param-value' | 'string' | 'string-array';
 
 type SitemapRouteParamErrorCode =
   | 'invalid-param-values-shape'
   | 'missing-param-values'
+  | 'param-matcher-mismatch'
   | 'param-value-count-mismatch'
   | 'unknown-param-values-route';
 
@@ -41,22 +61,32 @@ type SitemapRouteParamErrorCode =
 export class SitemapRouteParamError extends Error {
   readonly code: SitemapRouteParamErrorCode;
   readonly expectedValueCount?: number;
+  readonly matcher?: string;
+  readonly paramName?: string;
   readonly paramNames?: string[];
   readonly receivedValueCount?: number;
   readonly route: string;
+  readonly value?: string;
 
   constructor(
     code: SitemapRouteParamError['code'],
     route: string,
-    details?: ParamValueCountMismatchDetails
+    details?: ParamMatcherMismatchDetails | ParamValueCountMismatchDetails
   ) {
     super(formatRouteParamErrorMessage({ code, details, route }));
     this.code = code;
-    this.expectedValueCount = details?.expectedValueCount;
     this.name = 'SitemapRouteParamError';
-    this.paramNames = details?.paramNames;
-    this.receivedValueCount = details?.receivedValueCount;
     this.route = route;
+
+    if (details && 'matcher' in details) {
+      this.matcher = details.matcher;
+      this.paramName = details.paramName;
+      this.value = details.value;
+    } else {
+      this.expectedValueCount = details?.expectedValueCount;
+      this.paramNames = details?.paramNames;
+      this.receivedValueCount = details?.receivedValueCount;
+    }
   }
 }
 
@@ -64,24 +94,41 @@ export function generatePathsFromNormalizedRoutes({
   defaultChangefreq,
   defaultPriority,
   locales,
+  matchers = {},
   normalizedRoutes,
+  origin,
   paramValues = {},
+  routeLocales = {},
 }: GenerateNormalizedRoutePathsOptions): PathObj[] {
   validateLocaleConfig(normalizedRoutes, locales);
+  validateMatchers(matchers);
+  validateXDefault(locales);
+  validateHreflang(locales);
   validateParamValueRouteKeys(normalizedRoutes, paramValues);
 
-  const resolvedLocales = normalizeLocalesConfig(locales ?? { alternates: [], default: 'en' });
+  const resolvedLocales = normalizeLocalesConfig(
+    locales ?? { alternates: [], default: 'en' },
+    origin
+  );
+  const routeAvailableLocales = getRouteAvailableLocales(
+    normalizedRoutes,
+    resolvedLocales,
+    routeLocales
+  );
 
-  const defaults = {
-    changefreq: defaultChangefreq,
-    lastmod: undefined,
-    priority: defaultPriority,
-  };
   const paths: PathObj[] = [];
 
   for (const normalizedRoute of normalizedRoutes) {
+    if (normalizedRoute.sitemap?.exclude) continue;
+
+    const defaults = {
+      changefreq: normalizedRoute.sitemap?.changefreq ?? defaultChangefreq,
+      lastmod: undefined,
+      priority: normalizedRoute.sitemap?.priority ?? defaultPriority,
+    };
     const params = getNormalizedRouteParams(normalizedRoute);
     const paramValue = paramValues[normalizedRoute.source.compatibilityKey];
+    const availableLocales = routeAvailableLocales.get(normalizedRoute.source.compatibilityKey);
 
     if (params.length && paramValue === undefined) {
       throw new SitemapRouteParamError(
@@ -96,7 +143,8 @@ export function generatePathsFromNormalizedRoutes({
         normalizedRoute,
         { ...defaults, path: buildPath(normalizedRoute.segments) },
         resolvedLocales,
-        new Map()
+        new Map(),
+        { availableLocales }
       );
       continue;
     }
@@ -108,19 +156,41 @@ export function generatePathsFromNormalizedRoutes({
         const paramValueMap = valuesByParamName(
           normalizedRoute.source.compatibilityKey,
           params,
-          item.values
+          item.values,
+          matchers
         );
         pushLocalizedPaths(
           paths,
           normalizedRoute,
           {
             changefreq: item.changefreq ?? defaults.changefreq,
+            images: item.images,
             lastmod: item.lastmod,
+            news: item.news,
             path: buildPath(normalizedRoute.segments, paramValueMap),
             priority: item.priority ?? defaults.priority,
+            videos: item.videos,
           },
           resolvedLocales,
-          paramValueMap
+          paramValueMap,
+          {
+            availableLocales:
+              item.locales === undefined
+                ? availableLocales
+                : validateAvailableLocales(
+                    normalizedRoute,
+                    resolvedLocales,
+                    item.locales,
+                    'locales'
+                  ),
+            localeParamValues: getLocaleParamValueMaps(
+              normalizedRoute,
+              params,
+              resolvedLocales,
+              item.localeValues,
+              matchers
+            ),
+          }
         );
       }
       continue;
@@ -131,7 +201,8 @@ export function generatePathsFromNormalizedRoutes({
         const paramValueMap = valuesByParamName(
           normalizedRoute.source.compatibilityKey,
           params,
-          values
+          values,
+          matchers
         );
         pushLocalizedPaths(
           paths,
@@ -141,16 +212,20 @@ export function generatePathsFromNormalizedRoutes({
             path: buildPath(normalizedRoute.segments, paramValueMap),
           },
           resolvedLocales,
-          paramValueMap
+          paramValueMap,
+          { availableLocales }
         );
       }
       continue;
     }
 
     for (const value of paramValue) {
-      const paramValueMap = valuesByParamName(normalizedRoute.source.compatibilityKey, params, [
-        value,
-      ]);
+      const paramValueMap = valuesByParamName(
+        normalizedRoute.source.compatibilityKey,
+        params,
+        [value],
+        matchers
+      );
       pushLocalizedPaths(
         paths,
         normalizedRoute,
@@ -159,7 +234,8 @@ export function generatePathsFromNormalizedRoutes({
           path: buildPath(normalizedRoute.segments, paramValueMap),
         },
         resolvedLocales,
-        paramValueMap
+        paramValueMap,
+        { availableLocales }
       );
     }
   }
@@ -180,18 +256,169 @@ function validateLocaleConfig(
       'super-sitemap: `locales` property is required in sitemap config because one or more routes contain a locale param.'
     );
   }
+
+  if (locales?.origins === undefined) return;
+
+  if (routesContainLocaleParam) {
+    throw new Error(
+      'super-sitemap: routes must not contain a locale param when `locales.origins` serves each locale from its own origin.'
+    );
+  }
+
+  for (const locale of [locales.default, ...locales.alternates]) {
+    const localeOrigin: unknown = locales.origins[locale];
+    if (typeof localeOrigin !== 'string' || !isOrigin(localeOrigin)) {
+      throw new Error(
+        `super-sitemap: \`locales.origins\` must map every locale to an absolute URL origin, e.g. { ${locale}: "https://example.com" }. Missing or invalid: '${locale}'.`
+      );
+    }
+  }
+}
+
+/**
+ * Validates param matchers from untyped JavaScript config.
+ */
+function validateMatchers(matchers: unknown): void {
+  if (
+    typeof matchers !== 'object' ||
+    matchers === null ||
+    Array.isArray(matchers) ||
+    !Object.values(matchers).every((match) => typeof match === 'function')
+  ) {
+    throw new Error(
+      'super-sitemap: `matchers` must be an object of param matcher functions, e.g. { integer: (param) => /^\\d+$/.test(param) }.'
+    );
+  }
 }
 
 /**
- * Deduplicates locale alternates while preserving default locale semantics.
+ * Checks whether a value is an http(s) URL origin without a trailing slash.
  */
-function normalizeLocalesConfig(locales: LocalesConfig): LocalesConfig {
-  return {
-    default: locales.default,
-    alternates: [...new Set(locales.alternates)].filter(
-      (alternate) => alternate !== locales.default
-    ),
-  };
+function isOrigin(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.origin === value;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates the `x-default` alternate target from untyped JavaScript config.
+ */
+function validateXDefault(locales: LocalesConfig | undefined): void {
+  const xDefault: unknown = locales?.xDefault;
+  if (xDefault === undefined || typeof xDefault === 'boolean') return;
+
+  if (
+    typeof xDefault !== 'string' ||
+    !(
+      xDefault === locales?.default ||
+      locales?.alternates.includes(xDefault) ||
+      (xDefault.startsWith('/') && !xDefault.startsWith('//'))
+    )
+  ) {
+    throw new Error(
+      'super-sitemap: `locales.xDefault` must be true, a locale from `locales`, or a root-relative path, e.g. "/choose-language".'
+    );
+  }
+}
+
+/**
+ * Validates the locale-to-hreflang map from untyped JavaScript config. Search
+ * engines ignore alternates with malformed language tags, so each value must
+ * be a well-formed BCP 47 tag.
+ */
+function validateHreflang(locales: LocalesConfig | undefined): void {
+  const hreflang: unknown = locales?.hreflang;
+  if (locales === undefined || hreflang === undefined) return;
+
+  if (!isRecord(hreflang)) {
+    throw new Error('super-sitemap: `locales.hreflang` must map locales to hreflang values.');
+  }
+
+  for (const [locale, tags] of Object.entries(hreflang)) {
+    if (locale !== locales?.default && !locales?.alternates.includes(locale)) {
+      throw new Error(
+        `super-sitemap: \`locales.hreflang\` maps '${locale}', which is not in \`locales\`.`
+      );
+    }
+
+    const tagList: unknown[] = [tags].flat();
+    for (const tag of tagList) {
+      if (typeof tag !== 'string' || !isLanguageTag(tag)) {
+        throw new Error(
+          `super-sitemap: \`locales.hreflang\` value '${String(tag)}' for '${locale}' must be a BCP 47 language tag, e.g. "en-GB".`
+        );
+      }
+    }
+
+    if (tagList.length === 0) {
+      throw new Error(
+        `super-sitemap: \`locales.hreflang\` for '${locale}' must include at least one hreflang value.`
+      );
+    }
+  }
+
+  // Locales without a mapping use their path token as their hreflang value.
+  const localesByTag = new Map<string, string>();
+  for (const locale of [locales.default, ...locales.alternates]) {
+    for (const tag of [hreflang[locale] ?? locale].flat() as string[]) {
+      const otherLocale = localesByTag.get(tag.toLowerCase());
+      if (otherLocale !== undefined && otherLocale !== locale) {
+        throw new Error(
+          `super-sitemap: \`locales.hreflang\` value '${tag}' is used by both '${otherLocale}' and '${locale}'. Each hreflang value must point to one locale.`
+        );
+      }
+      localesByTag.set(tag.toLowerCase(), locale);
+    }
+  }
+}
+
+/**
+ * Checks whether a value is a well-formed BCP 47 language tag, using the
+ * runtime's `Intl` implementation.
+ */
+function isLanguageTag(value: string): boolean {
+  try {
+    new Intl.Locale(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Deduplicates locale alternates while preserving default locale semantics,
+ * and selects the locale served by `origin` when locales have their own
+ * origins.
+ */
+function normalizeLocalesConfig(locales: LocalesConfig, origin?: string): ResolvedLocales {
+  const alternates = [...new Set(locales.alternates)].filter(
+    (alternate) => alternate !== locales.default
+  );
+  if (locales.origins === undefined) {
+    return { ...locales, alternates, default: locales.default };
+  }
+
+  const originLocale = [locales.default, ...alternates].find(
+    (locale) => locales.origins?.[locale] === origin
+  );
+  if (originLocale === undefined) {
+    throw new Error(
+      `super-sitemap: \`origin\` '${String(origin)}' must be one of the \`locales.origins\` values.`
+    );
+  }
+
+  return { ...locales, alternates, default: locales.default, originLocale };
+}
+
+/**
+ * Checks whether a route has one path per locale, via a locale param or, with
+ * `locales.origins`, via each locale's origin.
+ */
+function isLocalizedRoute(normalizedRoute: NormalizedRoute, locales: ResolvedLocales): boolean {
+  return normalizedRoute.locale !== undefined || locales.originLocale !== undefined;
 }
 
 /**
@@ -199,7 +426,7 @@ function normalizeLocalesConfig(locales: LocalesConfig): LocalesConfig {
  */
 function validateParamValueRouteKeys(
   normalizedRoutes: NormalizedRoute[],
-  paramValues: ParamValues
+  paramValues: ResolvedParamValues
 ) {
   const paramsByCompatibilityKey = new Map(
     normalizedRoutes.map((normalizedRoute) => [
@@ -245,9 +472,7 @@ function getNormalizedRouteParams(normalizedRoute: NormalizedRoute): RouteParam[
   return params;
 }
 
-function isParamValueArray(
-  paramValue: ParamValues[string] | undefined
-): paramValue is ParamValue[] {
+function isParamValueArray(paramValue: ParamValueEntries | undefined): paramValue is ParamValue[] {
   return (
     Array.isArray(paramValue) &&
     paramValue.length > 0 &&
@@ -256,7 +481,7 @@ function isParamValueArray(
   );
 }
 
-function isStringTupleArray(paramValue: ParamValues[string] | undefined): paramValue is string[][] {
+function isStringTupleArray(paramValue: ParamValueEntries | undefined): paramValue is string[][] {
   return Array.isArray(paramValue) && Array.isArray(paramValue[0]);
 }
 
@@ -266,7 +491,7 @@ function isStringTupleArray(paramValue: ParamValues[string] | undefined): paramV
 function validateParamValueShape(
   route: string,
   paramValue: unknown
-): asserts paramValue is ParamValues[string] {
+): asserts paramValue is ParamValueEntries {
   if (!Array.isArray(paramValue) || !paramValue.length) {
     throw new SitemapRouteParamError('invalid-param-values-shape', route);
   }
@@ -320,7 +545,8 @@ function isRecord(value: unknown): value is Record<string, unknown> {
 function valuesByParamName(
   route: string,
   params: RouteParam[],
-  values: string[]
+  values: string[],
+  matchers: ParamMatchers
 ): Map<string, string> {
   if (values.length !== params.length) {
     throw new SitemapRouteParamError('param-value-count-mismatch', route, {
@@ -335,16 +561,137 @@ function valuesByParamName(
   for (let index = 0; index < params.length; index++) {
     const param = params[index];
     const value = values[index];
-    if (param && value !== undefined) valueMap.set(param.name, value);
+    if (!param || value === undefined) continue;
+
+    const match = param.matcher === undefined ? undefined : matchers[param.matcher];
+    if (match && !match(value)) {
+      throw new SitemapRouteParamError('param-matcher-mismatch', route, {
+        matcher: param.matcher ?? '',
+        paramName: param.name,
+        value,
+      });
+    }
+
+    valueMap.set(param.name, value);
   }
 
   return valueMap;
 }
 
+/**
+ * Resolves `routeLocales` config by compatibility key, after validating that
+ * each key targets a localized route.
+ */
+function getRouteAvailableLocales(
+  normalizedRoutes: NormalizedRoute[],
+  locales: ResolvedLocales,
+  routeLocales: unknown
+): Map<string, string[]> {
+  if (!isRecord(routeLocales)) {
+    throw new Error(
+      'super-sitemap: `routeLocales` must be an object mapping route keys to locale arrays.'
+    );
+  }
+
+  const availableLocales = new Map<string, string[]>();
+
+  for (const [route, routeLocaleList] of Object.entries(routeLocales)) {
+    const normalizedRoute = normalizedRoutes.find(
+      ({ source }) => source.compatibilityKey === route
+    );
+    if (!normalizedRoute) {
+      throw new Error(
+        `super-sitemap: \`routeLocales\` were provided for a route that does not exist: '${route}'.`
+      );
+    }
+
+    availableLocales.set(
+      route,
+      validateAvailableLocales(normalizedRoute, locales, routeLocaleList, 'routeLocales')
+    );
+  }
+
+  return availableLocales;
+}
+
+/**
+ * Validates a list of locales an entry or route exists in: a non-empty array of
+ * configured locales on a route with a locale param.
+ */
+function validateAvailableLocales(
+  normalizedRoute: NormalizedRoute,
+  locales: ResolvedLocales,
+  availableLocales: unknown,
+  field: 'locales' | 'routeLocales'
+): string[] {
+  const route = normalizedRoute.source.compatibilityKey;
+  if (!isLocalizedRoute(normalizedRoute, locales)) {
+    throw new Error(
+      `super-sitemap: \`${field}\` were provided for route '${route}', which has no locale param.`
+    );
+  }
+
+  if (
+    !Array.isArray(availableLocales) ||
+    availableLocales.length === 0 ||
+    !availableLocales.every(
+      (locale) => locale === locales.default || locales.alternates.includes(locale)
+    )
+  ) {
+    throw new Error(
+      `super-sitemap: \`${field}\` for route '${route}' must be a non-empty array of locales from \`locales\`.`
+    );
+  }
+
+  return availableLocales;
+}
+
+/**
+ * Maps each locale's translated `localeValues` to route param names, after
+ * validating that the route is localized and every locale is configured.
+ */
+function getLocaleParamValueMaps(
+  normalizedRoute: NormalizedRoute,
+  params: RouteParam[],
+  locales: ResolvedLocales,
+  localeValues: unknown,
+  matchers: ParamMatchers
+): Map<string, Map<string, string>> {
+  const localeParamValues = new Map<string, Map<string, string>>();
+  if (localeValues === undefined) return localeParamValues;
+
+  const route = normalizedRoute.source.compatibilityKey;
+  if (!isLocalizedRoute(normalizedRoute, locales)) {
+    throw new Error(
+      `super-sitemap: \`localeValues\` were provided for route '${route}', which has no locale param.`
+    );
+  }
+
+  if (!isRecord(localeValues)) {
+    throw new SitemapRouteParamError('invalid-param-values-shape', route);
+  }
+
+  for (const [locale, values] of Object.entries(localeValues)) {
+    if (locale !== locales.default && !locales.alternates.includes(locale)) {
+      throw new Error(
+        `super-sitemap: \`localeValues\` for route '${route}' include '${locale}', which is not in \`locales\`.`
+      );
+    }
+
+    if (!Array.isArray(values) || !values.every(isString)) {
+      throw new SitemapRouteParamError('invalid-param-values-shape', route);
+    }
+
+    localeParamValues.set(locale, valuesByParamName(route, params, values, matchers));
+  }
+
+  return localeParamValues;
+}
+
 /**
  * Estimates how many values a provided paramValues entry supplies per path.
  */
-function getReceivedValueCount(paramValue: ParamValues[string] | undefined): number {
+function getReceivedValueCount(paramValue: ParamValueEntries | undefined): number {
   if (!Array.isArray(paramValue) || paramValue.length === 0) return 0;
 
   const firstValue = paramValue[0];
@@ -362,7 +709,7 @@ function formatRouteParamErrorMessage({
   route,
 }: {
   code: SitemapRouteParamErrorCode;
-  details?: ParamValueCountMismatchDetails;
+  details?: ParamMatcherMismatchDetails | ParamValueCountMismatchDetails;
   route: string;
 }): string {
   if (code === 'missing-param-values') {
@@ -377,6 +724,10 @@ function formatRouteParamErrorMessage({
     return `paramValues for route '${route}' must be string[], string[][], or ParamValue[].`;
   }
 
+  if (details && 'matcher' in details) {
+    return `paramValues for route '${route}' include '${details.value}' for param '${details.paramName}', which the '${details.matcher}' param matcher rejects, so the page would 404. Remove the value or update the matcher.`;
+  }
+
   if (!details || details.expectedValueCount === 0) {
     return `Route key '${route}' expects no params. Remove this key from paramValues.`;
   }
@@ -421,52 +772,94 @@ function buildPath(
   return toPath(pathSegments);
 }
 
+/**
+ * Pushes one path per available locale of a localized route, each listing the
+ * others as alternates, or the path itself for a route that is not localized.
+ * With `locales.origins`, only the path of the origin's own locale is pushed.
+ */
 function pushLocalizedPaths(
   paths: PathObj[],
   normalizedRoute: NormalizedRoute,
   pathObj: PathObj,
-  locales: LocalesConfig,
-  paramValues: Map<string, string>
+  locales: ResolvedLocales,
+  paramValues: Map<string, string>,
+  {
+    availableLocales,
+    localeParamValues = new Map(),
+  }: {
+    availableLocales?: string[];
+    localeParamValues?: Map<string, Map<string, string>>;
+  } = {}
 ) {
-  if (!normalizedRoute.locale) {
+  if (!isLocalizedRoute(normalizedRoute, locales)) {
     paths.push(pathObj);
     return;
   }
 
-  const variations = getLocaleVariations(normalizedRoute, pathObj.path, locales, paramValues);
+  const variations = getLocaleVariations(
+    normalizedRoute,
+    locales,
+    paramValues,
+    localeParamValues
+  ).filter(({ hreflang }) => availableLocales?.includes(hreflang) ?? true);
+  const xDefaultAlternate = getXDefaultAlternate(variations, locales);
+  const alternates = variations.flatMap((variation) =>
+    [locales.hreflang?.[variation.hreflang] ?? variation.hreflang]
+      .flat()
+      .map((hreflang) => ({ ...variation, hreflang }))
+  );
+  if (xDefaultAlternate !== undefined) alternates.push(xDefaultAlternate);
 
   for (const variation of variations) {
+    if (locales.originLocale !== undefined && variation.hreflang !== locales.originLocale) {
+      continue;
+    }
+
     paths.push({
       ...pathObj,
-      alternates: variations,
+      alternates,
       path: variation.path,
     });
   }
 }
 
+/**
+ * Resolves the `x-default` alternate of one localized URL set. It is only an
+ * alternate, never a sitemap entry of its own.
+ */
+function getXDefaultAlternate(
+  variations: Alternate[],
+  { default: defaultLocale, xDefault }: LocalesConfig
+): Alternate | undefined {
+  if (xDefault === undefined || xDefault === false) return undefined;
+  if (typeof xDefault === 'string' && xDefault.startsWith('/')) {
+    return { hreflang: 'x-default', path: xDefault };
+  }
+
+  const xDefaultLocale = xDefault === true ? defaultLocale : xDefault;
+  const variation = variations.find(({ hreflang }) => hreflang === xDefaultLocale);
+
+  return variation && { ...variation, hreflang: 'x-default' };
+}
+
+/**
+ * Builds one path per locale from that locale's translated param values, when
+ * given, or the shared param values. Optional locale routes omit the default
+ * locale segment; with `locales.origins`, each path is on its locale's origin.
+ */
 function getLocaleVariations(
   normalizedRoute: NormalizedRoute,
-  defaultPath: string,
   locales: LocalesConfig,
-  paramValues: Map<string, string>
+  paramValues: Map<string, string>,
+  localeParamValues: Map<string, Map<string, string>>
 ): Alternate[] {
-  const variations: Alternate[] = [];
-  const defaultLocalePath =
-    normalizedRoute.locale?.mode === 'required'
-      ? buildPath(normalizedRoute.segments, paramValues, locales.default)
-      : defaultPath;
-
-  variations.push({
-    hreflang: locales.default,
-    path: defaultLocalePath,
-  });
-
-  for (const alternate of locales.alternates) {
-    variations.push({
-      hreflang: alternate,
-      path: buildPath(normalizedRoute.segments, paramValues, alternate),
-    });
-  }
-
-  return variations;
+  return [locales.default, ...locales.alternates].map((locale) => ({
+    hreflang: locale,
+    path: buildPath(
+      normalizedRoute.segments,
+      localeParamValues.get(locale) ?? paramValues,
+      locale === locales.default && normalizedRoute.locale?.mode !== 'required' ? undefined : locale
+    ),
+    ...(locales.origins ? { origin: locales.origins[locale] } : {}),
+  }));
 }
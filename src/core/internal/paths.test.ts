@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { deduplicatePaths, generateAdditionalPaths, sortPaths } from './paths.js';
+import { deduplicatePaths, generateAdditionalPaths, getLatestLastmod, sortPaths } from './paths.js';
 import type { PathObj } from './types.js';
 
 describe('core path helpers', () => {
@@ -48,4 +48,17 @@ describe('core path helpers', () => {
     expect(sortPaths(paths, false).map(({ path }) => path)).toEqual(['/z', '/a', '/m']);
     expect(sortPaths(paths, 'alpha').map(({ path }) => path)).toEqual(['/a', '/m', '/z']);
   });
+
+  it('returns the most recent lastmod as written, comparing dates as instants', () => {
+    expect(
+      getLatestLastmod([
+        { lastmod: '2026-01-02', path: '/a' },
+        { path: '/b' },
+        { lastmod: '2026-01-02T10:00:00Z', path: '/c' },
+        { lastmod: 'not a date', path: '/d' },
+        { lastmod: '2025-12-31', path: '/e' },
+      ])
+    ).toBe('2026-01-02T10:00:00Z');
+    expect(getLatestLastmod([{ path: '/a' }, { lastmod: 'invalid', path: '/b' }])).toBeUndefined();
+  });
 });
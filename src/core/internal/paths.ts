@@ -44,6 +44,28 @@ export function generateAdditionalPaths({
   }));
 }
 
+/**
+ * Returns the most recent `lastmod` among the paths, as originally written, or
+ * `undefined` when none has a parseable date.
+ *
+ * - Dates are compared as instants, so `2026-01-02` and `2026-01-02T10:00:00Z`
+ *   values can be mixed.
+ */
+export function getLatestLastmod(paths: PathObj[]): string | undefined {
+  let latest: string | undefined;
+  let latestTime = -Infinity;
+
+  for (const { lastmod } of paths) {
+    const time = lastmod ? Date.parse(lastmod) : Number.NaN;
+    if (time > latestTime) {
+      latest = lastmod;
+      latestTime = time;
+    }
+  }
+
+  return latest;
+}
+
 export function sortPaths(paths: PathObj[], sort: SitemapConfig['sort']): PathObj[] {
   if (sort !== 'alpha') return paths;
 
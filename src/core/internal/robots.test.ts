@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderRobotsTxt, robots } from './robots.js';
+
+describe('core robots.txt helpers', () => {
+  it('defaults to allowing all crawlers and referencing the root sitemap', () => {
+    expect(renderRobotsTxt({ origin: 'https://example.com' })).toBe(`User-agent: *
+Allow: /
+
+Sitemap: https://example.com/sitemap.xml
+`);
+  });
+
+  it('renders user-agent groups, rules, crawl delay, and sitemap locations', () => {
+    expect(
+      renderRobotsTxt({
+        origin: 'https://example.com',
+        rules: [
+          { disallow: ['/dashboard', '/*.pdf$'], userAgent: '*' },
+          { allow: ['/'], crawlDelay: 2, userAgent: ['Bingbot', 'Slurp'] },
+        ],
+        sitemaps: ['/sitemap.xml.gz', 'https://cdn.example.com/news.xml'],
+      })
+    ).toBe(`User-agent: *
+Disallow: /dashboard
+Disallow: /*.pdf$
+
+User-agent: Bingbot
+User-agent: Slurp
+Allow: /
+Crawl-delay: 2
+
+Sitemap: https://example.com/sitemap.xml.gz
+Sitemap: https://cdn.example.com/news.xml
+`);
+  });
+
+  it('returns a text response with merged headers', async () => {
+    const res = robots({
+      headers: { 'Cache-Control': 'max-age=60' },
+      origin: 'https://example.com',
+      sitemaps: [],
+    });
+
+    expect(res.headers.get('cache-control')).toBe('max-age=60');
+    expect(res.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+    expect(await res.text()).toBe('User-agent: *\nAllow: /\n');
+  });
+
+  it('rejects rules that would change meaning when written line by line', () => {
+    const origin = 'https://example.com';
+
+    expect(() => renderRobotsTxt({ origin, rules: [{ userAgent: 'Google bot' }] })).toThrow(
+      'super-sitemap: `rules[0].userAgent` must be a user agent token or an array of them, e.g. "*" or "Googlebot".'
+    );
+    expect(() => renderRobotsTxt({ origin, rules: [{ userAgent: [] }] })).toThrow(
+      '`rules[0].userAgent`'
+    );
+    expect(() =>
+      renderRobotsTxt({ origin, rules: [{ disallow: ['admin'], userAgent: '*' }] })
+    ).toThrow(
+      `super-sitemap: robots.txt path 'admin' in \`rules[0].disallow\` must start with "/" and contain no whitespace or "#", e.g. "/admin".`
+    );
+    expect(() =>
+      renderRobotsTxt({ origin, rules: [{ allow: ['/a\nDisallow: /'], userAgent: '*' }] })
+    ).toThrow('`rules[0].allow`');
+    expect(() => renderRobotsTxt({ origin, rules: [{ crawlDelay: 0, userAgent: '*' }] })).toThrow(
+      'super-sitemap: `rules[0].crawlDelay` must be a positive number of seconds.'
+    );
+    expect(() => renderRobotsTxt({ origin, sitemaps: ['sitemap.xml'] })).toThrow(
+      'super-sitemap: `sitemaps` must be an array of root-relative paths or absolute URLs, e.g. ["/sitemap.xml"].'
+    );
+    expect(() => renderRobotsTxt({ origin: 'https://example.com/' })).toThrow(
+      'super-sitemap: `origin` must be an absolute URL origin'
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { validateOrigin } from './sitemap.js';
+import type { RobotsConfig, RobotsRule } from './types.js';
+
+const DEFAULT_RULES: RobotsRule[] = [{ allow: ['/'], userAgent: '*' }];
+const DEFAULT_SITEMAPS = ['/sitemap.xml'];
+const ROBOTS_PATH_REGEX = /^\/[^\s#]*$/;
+const USER_AGENT_REGEX = /^[^\s#:]+$/;
+
+/**
+ * Generates a robots.txt body with one group per rule, followed by `Sitemap:`
+ * lines resolved against the origin.
+ *
+ * @param config - Robots config. Only `origin` is required.
+ * @returns The generated robots.txt.
+ */
+export function renderRobotsTxt(config: RobotsConfig): string {
+  const { origin, rules = DEFAULT_RULES, sitemaps = DEFAULT_SITEMAPS } = config;
+  validateOrigin(origin);
+  validateRobotsRules(rules);
+  validateRobotsSitemaps(sitemaps);
+
+  const groups = rules.map(({ allow = [], crawlDelay, disallow = [], userAgent }) => {
+    const lines = [userAgent].flat().map((agent) => `User-agent: ${agent}`);
+    lines.push(...allow.map((path) => `Allow: ${path}`));
+    lines.push(...disallow.map((path) => `Disallow: ${path}`));
+    if (crawlDelay !== undefined) lines.push(`Crawl-delay: ${crawlDelay}`);
+
+    return lines.join('\n');
+  });
+  const sitemapLines = sitemaps.map(
+    (sitemap) => `Sitemap: ${sitemap.startsWith('/') ? `${origin}${sitemap}` : sitemap}`
+  );
+
+  return `${[...groups, sitemapLines.join('\n')].filter(Boolean).join('\n\n')}\n`;
+}
+
+/**
+ * Generates a `Response` containing a robots.txt that references the sitemap.
+ *
+ * @remarks
+ * Serve it from `/robots.txt`. Crawlers read it before anything else, so it is
+ * sent with the same 1h CDN cache as sitemaps.
+ *
+ * @param config - Robots config. Only `origin` is required.
+ */
+export function robots(config: RobotsConfig): Response {
+  const { headers = {} } = config;
+
+  return new Response(renderRobotsTxt(config), {
+    headers: {
+      'cache-control': 'max-age=0, s-maxage=3600',
+      'content-type': 'text/plain; charset=utf-8',
+      ...Object.fromEntries(
+        Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value])
+      ),
+    },
+  });
+}
+
+/**
+ * Validates robots.txt groups from untyped JavaScript config.
+ *
+ * @remarks
+ * Values are written into the file line by line, so whitespace, `#`, or line
+ * breaks would silently change the meaning of a rule or start a new one.
+ */
+function validateRobotsRules(rules: unknown): asserts rules is RobotsRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error('super-sitemap: `rules` must be an array of robots.txt rules.');
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    const userAgents: unknown[] = [rule?.userAgent].flat();
+    if (
+      userAgents.length === 0 ||
+      !userAgents.every((agent) => typeof agent === 'string' && USER_AGENT_REGEX.test(agent))
+    ) {
+      throw new Error(
+        `super-sitemap: \`rules[${index}].userAgent\` must be a user agent token or an array of them, e.g. "*" or "Googlebot".`
+      );
+    }
+
+    for (const field of ['allow', 'disallow']) {
+      const paths: unknown = rule[field];
+      if (paths === undefined) continue;
+
+      if (!Array.isArray(paths)) {
+        throw new Error(`super-sitemap: \`rules[${index}].${field}\` must be an array of paths.`);
+      }
+
+      for (const path of paths) {
+        if (typeof path !== 'string' || !ROBOTS_PATH_REGEX.test(path)) {
+          throw new Error(
+            `super-sitemap: robots.txt path '${String(path)}' in \`rules[${index}].${field}\` must start with "/" and contain no whitespace or "#", e.g. "/admin".`
+          );
+        }
+      }
+    }
+
+    const crawlDelay: unknown = rule.crawlDelay;
+    if (
+      crawlDelay !== undefined &&
+      (typeof crawlDelay !== 'number' || !Number.isFinite(crawlDelay) || crawlDelay <= 0)
+    ) {
+      throw new Error(
+        `super-sitemap: \`rules[${index}].crawlDelay\` must be a positive number of seconds.`
+      );
+    }
+  }
+}
+
+/**
+ * Validates robots.txt sitemap locations from untyped JavaScript config.
+ */
+function validateRobotsSitemaps(sitemaps: unknown): asserts sitemaps is string[] {
+  if (
+    !Array.isArray(sitemaps) ||
+    !sitemaps.every(
+      (sitemap) =>
+        typeof sitemap === 'string' &&
+        !/\s/.test(sitemap) &&
+        (sitemap.startsWith('/') ? !sitemap.startsWith('//') : /^https?:\/\//.test(sitemap))
+    )
+  ) {
+    throw new Error(
+      'super-sitemap: `sitemaps` must be an array of root-relative paths or absolute URLs, e.g. ["/sitemap.xml"].'
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import type { NormalizedRoute } from './types.js';
+
+/**
+ * Matches concrete public paths back to the normalized route shape that
+ * produced them, e.g. for sampling or grouping paths after `processPaths`.
+ */
+export type RouteMatcher = {
+  compatibilityKey: string;
+  regex: RegExp;
+  score: number;
+};
+
+/**
+ * Creates deterministic route matchers that prefer specific static routes over
+ * broad parameterized routes.
+ */
+export function createRouteMatchers(normalizedRoutes: NormalizedRoute[]): RouteMatcher[] {
+  return normalizedRoutes
+    .map((normalizedRoute) => ({
+      compatibilityKey: normalizedRoute.source.compatibilityKey,
+      regex: normalizedRouteToRegex(normalizedRoute),
+      score: getNormalizedRouteSpecificityScore(normalizedRoute),
+    }))
+    .sort((a, b) => b.score - a.score || a.compatibilityKey.localeCompare(b.compatibilityKey));
+}
+
+/**
+ * Converts a normalized route into a pathname matcher.
+ */
+function normalizedRouteToRegex(normalizedRoute: NormalizedRoute): RegExp {
+  if (normalizedRoute.segments.length === 0) {
+    return /^\/$/;
+  }
+
+  const pattern = normalizedRoute.segments
+    .map((segment) => {
+      if (segment.kind === 'static') {
+        return `/${escapeRegex(segment.value)}`;
+      }
+
+      if (segment.kind === 'locale') {
+        return '(?:/[^/]+)?';
+      }
+
+      return segment.rest ? '/.+' : '/[^/]+';
+    })
+    .join('');
+
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Scores normalized routes so static routes beat dynamic siblings that can match
+ * the same concrete path.
+ */
+function getNormalizedRouteSpecificityScore(normalizedRoute: NormalizedRoute): number {
+  return normalizedRoute.segments.reduce((score, segment) => {
+    if (segment.kind === 'static') return score + 100;
+    if (segment.kind === 'param' && !segment.rest) return score + 10;
+    if (segment.kind === 'param' && segment.rest) return score + 1;
+    return score;
+  }, normalizedRoute.segments.length);
+}
+
+/**
+ * Returns the most specific route matcher for a concrete path, if any.
+ */
+export function findRouteMatcher(matchers: RouteMatcher[], path: string): RouteMatcher | undefined {
+  return matchers.find(({ regex }) => regex.test(path));
+}
+
+/**
+ * Escapes a path segment for use in a regular expression.
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
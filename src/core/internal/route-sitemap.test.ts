@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+
+import { validateRouteSitemap } from './route-sitemap.js';
+
+describe('core route sitemap exports', () => {
+  const filePath = '/src/routes/blog/+page.ts';
+
+  it('accepts changefreq, exclude, and priority', () => {
+    expect(() => validateRouteSitemap({}, filePath)).not.toThrow();
+    expect(() =>
+      validateRouteSitemap({ changefreq: 'weekly', exclude: false, priority: 0.9 }, filePath)
+    ).not.toThrow();
+  });
+
+  it('names the module in errors for invalid exports', () => {
+    expect(() => validateRouteSitemap({ prority: 0.9 }, filePath)).toThrow(
+      "super-sitemap: `sitemap` exported from '/src/routes/blog/+page.ts' must be an object with only `changefreq`, `exclude`, and `priority` properties."
+    );
+    expect(() => validateRouteSitemap(true, filePath)).toThrow('must be an object');
+    expect(() => validateRouteSitemap({ changefreq: 'sometimes' }, filePath)).toThrow(
+      "super-sitemap: `sitemap.changefreq` exported from '/src/routes/blog/+page.ts' must be one of: always, daily, hourly, monthly, never, weekly, yearly."
+    );
+    expect(() => validateRouteSitemap({ exclude: 'yes' }, filePath)).toThrow('must be a boolean.');
+    expect(() => validateRouteSitemap({ priority: 2 }, filePath)).toThrow(
+      'must be a number from 0.0 to 1.0.'
+    );
+  });
+});
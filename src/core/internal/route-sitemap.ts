@@ -0,0 +1,49 @@
+import type { RouteSitemap } from './types.js';
+
+const CHANGEFREQS = new Set(['always', 'daily', 'hourly', 'monthly', 'never', 'weekly', 'yearly']);
+const PROPERTIES = new Set(['changefreq', 'exclude', 'priority']);
+
+/**
+ * Validates a route's `sitemap` export from an untyped page module.
+ *
+ * @param sitemap - The exported value.
+ * @param filePath - The module that exported it, named in errors.
+ */
+export function validateRouteSitemap(
+  sitemap: unknown,
+  filePath: string
+): asserts sitemap is RouteSitemap {
+  if (
+    typeof sitemap !== 'object' ||
+    sitemap === null ||
+    Array.isArray(sitemap) ||
+    !Object.keys(sitemap).every((key) => PROPERTIES.has(key))
+  ) {
+    throw new Error(
+      `super-sitemap: \`sitemap\` exported from '${filePath}' must be an object with only \`changefreq\`, \`exclude\`, and \`priority\` properties.`
+    );
+  }
+
+  const { changefreq, exclude, priority } = sitemap as Record<string, unknown>;
+
+  if (changefreq !== undefined && !CHANGEFREQS.has(changefreq as string)) {
+    throw new Error(
+      `super-sitemap: \`sitemap.changefreq\` exported from '${filePath}' must be one of: ${[...CHANGEFREQS].join(', ')}.`
+    );
+  }
+
+  if (exclude !== undefined && typeof exclude !== 'boolean') {
+    throw new Error(
+      `super-sitemap: \`sitemap.exclude\` exported from '${filePath}' must be a boolean.`
+    );
+  }
+
+  if (
+    priority !== undefined &&
+    (typeof priority !== 'number' || !(priority >= 0 && priority <= 1))
+  ) {
+    throw new Error(
+      `super-sitemap: \`sitemap.priority\` exported from '${filePath}' must be a number from 0.0 to 1.0.`
+    );
+  }
+}
@@ -0,0 +1,193 @@
+import type { PathObj } from './types.js';
+
+const MAX_IMAGES_PER_URL = 1_000;
+const MAX_NEWS_ARTICLE_AGE_MS = 48 * 60 * 60 * 1000;
+const NEWS_LANGUAGE_REGEX = /^(?:[a-z]{2,3}|zh-cn|zh-tw)$/;
+const MAX_VIDEO_DESCRIPTION_LENGTH = 2_048;
+const MAX_VIDEO_DURATION_SECONDS = 28_800;
+
+/** Google News sitemaps may contain at most 1,000 URLs. */
+export const MAX_NEWS_URLS_PER_SITEMAP = 1_000;
+
+/**
+ * Validates sitemap extension fields, such as `images`, `videos`, and `news`,
+ * on final path objects.
+ *
+ * @remarks
+ * Extension data usually comes from a database or CMS, and search engines
+ * reject a whole sitemap file for one malformed entry. Validating here names the
+ * offending path instead of publishing a sitemap that is silently ignored.
+ */
+export function validatePathExtensions(paths: PathObj[]): void {
+  for (const pathObj of paths) {
+    if (pathObj.images !== undefined) validateImages(pathObj.path, pathObj.images);
+    if (pathObj.videos !== undefined) validateVideos(pathObj.path, pathObj.videos);
+    if (pathObj.news !== undefined) validateNews(pathObj.path, pathObj.news);
+  }
+}
+
+/**
+ * Selects the paths eligible for a Google News sitemap: articles with `news`
+ * metadata published within the last 48 hours, in their existing order.
+ * Articles dated in the future are not published yet and are left out.
+ */
+export function selectRecentNewsPaths(paths: PathObj[], now = Date.now()): PathObj[] {
+  return paths.filter(({ news }) => {
+    if (news === undefined) return false;
+
+    const age = now - Date.parse(news.publicationDate);
+    return age >= 0 && age <= MAX_NEWS_ARTICLE_AGE_MS;
+  });
+}
+
+/**
+ * Validates the image sitemap extension entries of one path.
+ */
+function validateImages(path: string, images: unknown): void {
+  if (!Array.isArray(images)) {
+    throw new Error(`super-sitemap: \`images\` for path '${path}' must be an array.`);
+  }
+
+  if (images.length > MAX_IMAGES_PER_URL) {
+    throw new Error(
+      `super-sitemap: path '${path}' has ${images.length} images. Sitemaps allow at most 1,000 images per URL.`
+    );
+  }
+
+  for (const [index, image] of images.entries()) {
+    if (!isRecord(image) || !isLocValue(image['loc'])) {
+      throw new Error(
+        `super-sitemap: \`images[${index}]\` for path '${path}' must include a \`loc\` that is an absolute URL or a root-relative path, e.g. "/images/hero.jpg".`
+      );
+    }
+
+    for (const field of ['caption', 'title']) {
+      if (image[field] !== undefined && typeof image[field] !== 'string') {
+        throw new Error(
+          `super-sitemap: \`images[${index}].${field}\` for path '${path}' must be a string.`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Validates the video sitemap extension entries of one path.
+ */
+function validateVideos(path: string, videos: unknown): void {
+  if (!Array.isArray(videos)) {
+    throw new Error(`super-sitemap: \`videos\` for path '${path}' must be an array.`);
+  }
+
+  for (const [index, video] of videos.entries()) {
+    const field = (name: string) => `\`videos[${index}].${name}\` for path '${path}'`;
+
+    if (!isRecord(video)) {
+      throw new Error(`super-sitemap: \`videos[${index}]\` for path '${path}' must be an object.`);
+    }
+
+    for (const name of ['title', 'description']) {
+      const value = video[name];
+      if (typeof value !== 'string' || !value.trim()) {
+        throw new Error(`super-sitemap: ${field(name)} is required.`);
+      }
+    }
+
+    if ((video['description'] as string).length > MAX_VIDEO_DESCRIPTION_LENGTH) {
+      throw new Error(`super-sitemap: ${field('description')} must be at most 2,048 characters.`);
+    }
+
+    for (const name of ['thumbnailLoc', 'contentLoc', 'playerLoc']) {
+      const value = video[name];
+      if ((name === 'thumbnailLoc' || value !== undefined) && !isLocValue(value)) {
+        throw new Error(
+          `super-sitemap: ${field(name)} must be an absolute URL or a root-relative path.`
+        );
+      }
+    }
+
+    if (video['contentLoc'] === undefined && video['playerLoc'] === undefined) {
+      throw new Error(
+        `super-sitemap: \`videos[${index}]\` for path '${path}' must include \`contentLoc\` or \`playerLoc\`.`
+      );
+    }
+
+    const duration = video['duration'];
+    if (
+      duration !== undefined &&
+      (typeof duration !== 'number' ||
+        !Number.isInteger(duration) ||
+        duration < 1 ||
+        duration > MAX_VIDEO_DURATION_SECONDS)
+    ) {
+      throw new Error(
+        `super-sitemap: ${field('duration')} must be an integer number of seconds between 1 and 28800.`
+      );
+    }
+
+    const publicationDate = video['publicationDate'];
+    if (
+      publicationDate !== undefined &&
+      (typeof publicationDate !== 'string' || Number.isNaN(Date.parse(publicationDate)))
+    ) {
+      throw new Error(
+        `super-sitemap: ${field('publicationDate')} must be an ISO 8601 date, e.g. "2026-01-02T10:00:00Z".`
+      );
+    }
+
+    if (video['familyFriendly'] !== undefined && typeof video['familyFriendly'] !== 'boolean') {
+      throw new Error(`super-sitemap: ${field('familyFriendly')} must be a boolean.`);
+    }
+  }
+}
+
+/**
+ * Validates the Google News sitemap extension metadata of one path.
+ */
+function validateNews(path: string, news: unknown): void {
+  if (!isRecord(news)) {
+    throw new Error(`super-sitemap: \`news\` for path '${path}' must be an object.`);
+  }
+
+  for (const name of ['publicationName', 'title']) {
+    const value = news[name];
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new Error(`super-sitemap: \`news.${name}\` for path '${path}' is required.`);
+    }
+  }
+
+  if (typeof news['language'] !== 'string' || !NEWS_LANGUAGE_REGEX.test(news['language'])) {
+    throw new Error(
+      `super-sitemap: \`news.language\` for path '${path}' must be a lowercase ISO 639 language code, e.g. "en", "zh-cn".`
+    );
+  }
+
+  const publicationDate = news['publicationDate'];
+  if (typeof publicationDate !== 'string' || Number.isNaN(Date.parse(publicationDate))) {
+    throw new Error(
+      `super-sitemap: \`news.publicationDate\` for path '${path}' must be an ISO 8601 date, e.g. "2026-01-02T10:00:00Z".`
+    );
+  }
+}
+
+/**
+ * Checks whether a value is an absolute http(s) URL or a root-relative path.
+ */
+function isLocValue(value: unknown): value is string {
+  if (typeof value !== 'string' || !value.trim()) return false;
+  if (value.startsWith('/')) return !value.startsWith('//');
+
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether a value can be inspected as a plain object shape.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  assignPathsToGroups,
+  findGroupOfPage,
+  routeCanHavePathsInGroup,
+  validateGroups,
+} from './sitemap-groups.js';
+import type { NormalizedRoute } from './types.js';
+
+const source = (compatibilityKey: string) => ({
+  adapter: 'unit',
+  compatibilityKey,
+});
+
+const normalizedRoutes: NormalizedRoute[] = [
+  {
+    id: '/[[locale]]/blog/[slug]',
+    locale: { mode: 'optional', paramName: 'locale', segmentIndex: 0 },
+    params: [{ name: 'slug', segmentIndex: 2 }],
+    segments: [
+      { kind: 'locale', name: 'locale' },
+      { kind: 'static', value: 'blog' },
+      { kind: 'param', name: 'slug' },
+    ],
+    source: source('/[[locale]]/blog/[slug]'),
+  },
+  {
+    id: '/about',
+    segments: [{ kind: 'static', value: 'about' }],
+    source: source('/about'),
+  },
+];
+
+describe('core sitemap groups', () => {
+  it('assigns paths to the first matching group by route key or path', () => {
+    const groups = assignPathsToGroups({
+      groups: [
+        { name: 'blog', routes: [/\/blog\//] },
+        { name: 'docs', paths: [/\.pdf$/] },
+        { name: 'pages' },
+      ],
+      normalizedRoutes,
+      paths: [
+        { path: '/about' },
+        { path: '/blog/hello' },
+        { path: '/de/blog/hello' },
+        { path: '/manual.pdf' },
+      ],
+    });
+
+    expect(groups).toEqual([
+      { name: 'blog', paths: [{ path: '/blog/hello' }, { path: '/de/blog/hello' }] },
+      { name: 'docs', paths: [{ path: '/manual.pdf' }] },
+      { name: 'pages', paths: [{ path: '/about' }] },
+    ]);
+  });
+
+  it('throws for paths that match no group instead of dropping them', () => {
+    expect(() =>
+      assignPathsToGroups({
+        groups: [{ name: 'blog', routes: [/\/blog\//] }],
+        normalizedRoutes,
+        paths: [{ path: '/blog/hello' }, { path: '/about' }],
+      })
+    ).toThrow(
+      "super-sitemap: path '/about' matches no sitemap group. Add a group without `routes` or `paths` to collect remaining paths."
+    );
+  });
+
+  it('finds the group of a page id', () => {
+    const groups = [{ name: 'blog' }, { name: 'blog-news' }];
+
+    expect(
+      ['blog', 'blog-2', 'blog-news', 'blog-news-3'].map((page) => findGroupOfPage(groups, page))
+    ).toEqual(['blog', 'blog', 'blog-news', 'blog-news']);
+    expect(
+      [undefined, '', 'blog-x', '/sitemap-blog.xml'].map((page) => findGroupOfPage(groups, page))
+    ).toEqual([undefined, undefined, undefined, undefined]);
+  });
+
+  it('rules out groups that cannot hold any path of a route', () => {
+    const groups = [
+      { name: 'blog', routes: [/^\/blog/] },
+      { name: 'featured', paths: [/^\/news\/top/] },
+      { name: 'news', routes: [/^\/news/] },
+      { name: 'other' },
+    ];
+    const groupsOf = (routeKey: string) =>
+      groups
+        .filter(({ name }) => routeCanHavePathsInGroup({ group: name, groups, routeKey }))
+        .map(({ name }) => name);
+
+    expect(groupsOf('/blog/[slug]')).toEqual(['blog']);
+    expect(groupsOf('/news/[slug]')).toEqual(['featured', 'news']);
+    expect(groupsOf('/docs/[slug]')).toEqual(['featured', 'other']);
+  });
+
+  it('validates group names and patterns', () => {
+    expect(() => validateGroups(undefined)).not.toThrow();
+    expect(() => validateGroups([{ name: 'blog_posts', routes: [/blog/] }])).not.toThrow();
+
+    expect(() => validateGroups([])).toThrow(
+      'super-sitemap: `groups` must be a non-empty array of sitemap groups.'
+    );
+    for (const name of ['', 'blog posts', 'blog-2', '-blog', 42]) {
+      expect(() => validateGroups([{ name }])).toThrow(
+        'super-sitemap: `groups[0].name` must contain only letters, numbers, "-", or "_" and must not end in "-<number>", e.g. "blog".'
+      );
+    }
+    expect(() => validateGroups([{ name: 'blog' }, { name: 'blog' }])).toThrow(
+      "super-sitemap: sitemap group name 'blog' is used more than once."
+    );
+    expect(() => validateGroups([{ name: 'blog', paths: ['/blog'] }])).toThrow(
+      'super-sitemap: `groups[0].paths` must be an array of RegExp values.'
+    );
+  });
+});
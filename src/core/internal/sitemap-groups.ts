@@ -0,0 +1,144 @@
+import { routeMatchesPattern } from './route-exclusion.js';
+import { createRouteMatchers, findRouteMatcher } from './route-matchers.js';
+import type { NormalizedRoute, PathObj, SitemapGroup } from './types.js';
+
+const GROUP_NAME_REGEX = /^[a-z0-9]+(?:[-_][a-z0-9]+)*$/i;
+
+export type GroupedPaths = {
+  name: string;
+  paths: PathObj[];
+};
+
+/**
+ * Assigns final paths to named sitemap groups, preserving path order within
+ * each group and group order from the config.
+ *
+ * @remarks
+ * Paths are matched back to the normalized route that produced them with the
+ * same matchers used for sampling, so `routes` patterns also apply to localized
+ * variants and to paths rewritten by `processPaths`. A path that matches no
+ * group throws, because silently dropping it would remove it from the sitemap.
+ */
+export function assignPathsToGroups({
+  groups,
+  normalizedRoutes,
+  paths,
+}: {
+  groups: SitemapGroup[];
+  normalizedRoutes: NormalizedRoute[];
+  paths: PathObj[];
+}): GroupedPaths[] {
+  const matchers = createRouteMatchers(normalizedRoutes);
+  const groupedPaths = groups.map(({ name }) => ({ name, paths: [] as PathObj[] }));
+
+  for (const pathObj of paths) {
+    const routeKey = findRouteMatcher(matchers, pathObj.path)?.compatibilityKey;
+    const index = groups.findIndex(
+      ({ paths: pathPatterns, routes: routePatterns }) =>
+        (pathPatterns === undefined && routePatterns === undefined) ||
+        pathPatterns?.some((pattern) => routeMatchesPattern(pattern, pathObj.path)) ||
+        (routeKey !== undefined &&
+          routePatterns?.some((pattern) => routeMatchesPattern(pattern, routeKey)))
+    );
+
+    if (index === -1) {
+      throw new Error(
+        `super-sitemap: path '${pathObj.path}' matches no sitemap group. Add a group without \`routes\` or \`paths\` to collect remaining paths.`
+      );
+    }
+
+    groupedPaths[index]?.paths.push(pathObj);
+  }
+
+  return groupedPaths;
+}
+
+/**
+ * Returns the group whose page a grouped sitemap `page` param names, e.g.
+ * `blog` for `blog` or `blog-2`, or `undefined` for the index and for `page`
+ * params given as locations.
+ */
+export function findGroupOfPage(groups: SitemapGroup[], page?: string): string | undefined {
+  if (!page) return undefined;
+
+  return groups.find(
+    ({ name }) =>
+      page === name || (page.startsWith(`${name}-`) && /^\d+$/.test(page.slice(name.length + 1)))
+  )?.name;
+}
+
+/**
+ * Returns whether a route's paths can be assigned to a group, as decided by
+ * `assignPathsToGroups` from the route key alone.
+ *
+ * @remarks
+ * An earlier group without patterns, or whose `routes` match the route, takes
+ * every path of the route. Otherwise the group can hold its paths when it has
+ * no patterns, `routes` matching the route, or any `paths` patterns, which are
+ * only known to match once the paths exist.
+ */
+export function routeCanHavePathsInGroup({
+  group,
+  groups,
+  routeKey,
+}: {
+  group: string;
+  groups: SitemapGroup[];
+  routeKey: string;
+}): boolean {
+  for (const { name, paths: pathPatterns, routes: routePatterns } of groups) {
+    const takesRoute =
+      (pathPatterns === undefined && routePatterns === undefined) ||
+      (routePatterns?.some((pattern) => routeMatchesPattern(pattern, routeKey)) ?? false);
+
+    if (name === group) return takesRoute || pathPatterns !== undefined;
+    if (takesRoute) return false;
+  }
+
+  return false;
+}
+
+/**
+ * Validates sitemap group config from untyped JavaScript config.
+ *
+ * @remarks
+ * Group names become `page` params and child sitemap URLs, so they are limited
+ * to URL-safe words and may not end in `-<number>`, which is reserved for the
+ * continuation pages of large groups.
+ */
+export function validateGroups(groups: unknown): asserts groups is SitemapGroup[] | undefined {
+  if (groups === undefined) return;
+
+  if (!Array.isArray(groups) || groups.length === 0) {
+    throw new Error('super-sitemap: `groups` must be a non-empty array of sitemap groups.');
+  }
+
+  const names = new Set<string>();
+
+  for (const [index, group] of groups.entries()) {
+    const name: unknown = group?.name;
+
+    if (typeof name !== 'string' || !GROUP_NAME_REGEX.test(name) || /-\d+$/.test(name)) {
+      throw new Error(
+        `super-sitemap: \`groups[${index}].name\` must contain only letters, numbers, "-", or "_" and must not end in "-<number>", e.g. "blog".`
+      );
+    }
+
+    if (names.has(name)) {
+      throw new Error(`super-sitemap: sitemap group name '${name}' is used more than once.`);
+    }
+    names.add(name);
+
+    for (const field of ['routes', 'paths']) {
+      const patterns: unknown = group[field];
+      if (
+        patterns !== undefined &&
+        (!Array.isArray(patterns) || !patterns.every((pattern) => pattern instanceof RegExp))
+      ) {
+        throw new Error(
+          `super-sitemap: \`groups[${index}].${field}\` must be an array of RegExp values.`
+        );
+      }
+    }
+  }
+}
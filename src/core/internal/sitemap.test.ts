@@ -1,7 +1,10 @@
-import { describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { getBody, getHeaders, preparePaths, response } from './sitemap.js';
+import { getBody, getFiles, getHeaders, preparePaths, response } from './sitemap.js';
 import type { NormalizedRoute, ParamValues, PathObj } from './types.js';
+import { parseSitemapXml } from './xml.js';
+
+const parseLocs = (xml: string) => parseSitemapXml(xml).locs;
 
 const source = (compatibilityKey: string) => ({
   adapter: 'unit',
@@ -14,6 +17,16 @@ const staticNormalizedRoute = (path: string): NormalizedRoute => ({
   source: source(path),
 });
 
+const newsSlugNormalizedRoute: NormalizedRoute = {
+  id: '/news/[slug]',
+  params: [{ name: 'slug', segmentIndex: 1 }],
+  segments: [
+    { kind: 'static', value: 'news' },
+    { kind: 'param', name: 'slug' },
+  ],
+  source: source('/news/[slug]'),
+};
+
 const blogSlugNormalizedRoute: NormalizedRoute = {
   id: '/blog/[slug]',
   params: [{ name: 'slug', segmentIndex: 1 }],
@@ -25,8 +38,8 @@ const blogSlugNormalizedRoute: NormalizedRoute = {
 };
 
 describe('core sitemap preparePaths', () => {
-  it('combines normalizedRoute paths, additional paths, processPaths, dedupe, and sort', () => {
-    const paths = preparePaths({
+  it('combines normalizedRoute paths, additional paths, processPaths, dedupe, and sort', async () => {
+    const paths = await preparePaths({
       additionalPaths: ['manual.pdf', '/about'],
       defaultChangefreq: 'daily',
       normalizedRoutes: [staticNormalizedRoute('/about'), staticNormalizedRoute('/')],
@@ -41,32 +54,32 @@ describe('core sitemap preparePaths', () => {
     ]);
   });
 
-  it('throws a migration error for the v1 lang config property', () => {
-    expect(() =>
+  it('throws a migration error for the v1 lang config property', async () => {
+    await expect(
       preparePaths({
         // @ts-expect-error - runtime validation covers JavaScript callers.
         lang: { alternates: ['de'], default: 'en' },
         normalizedRoutes: [staticNormalizedRoute('/about')],
       })
-    ).toThrow('super-sitemap: `lang` was renamed to `locales` in v2.');
+    ).rejects.toThrow('super-sitemap: `lang` was renamed to `locales` in v2.');
   });
 
-  it('requires sort to be a supported mode', () => {
-    expect(() =>
+  it('requires sort to be a supported mode', async () => {
+    await expect(
       preparePaths({
         normalizedRoutes: [staticNormalizedRoute('/about')],
         sort: 'alphabetical' as unknown as false,
       })
-    ).toThrow('super-sitemap: `sort` must be "alpha" or false.');
+    ).rejects.toThrow('super-sitemap: `sort` must be "alpha" or false.');
   });
 
-  it('requires processPaths to be a function that returns valid path objects', () => {
-    expect(() =>
+  it('requires processPaths to be a function that returns valid path objects', async () => {
+    await expect(
       preparePaths({
         normalizedRoutes: [staticNormalizedRoute('/about')],
         processPaths: true as unknown as (paths: PathObj[]) => PathObj[],
       })
-    ).toThrow('super-sitemap: `processPaths` must be a function.');
+    ).rejects.toThrow('super-sitemap: `processPaths` must be a function.');
 
     const invalidReturnValues = [
       undefined,
@@ -77,53 +90,376 @@ describe('core sitemap preparePaths', () => {
     ] as unknown as PathObj[][];
 
     for (const invalidReturnValue of invalidReturnValues) {
-      expect(() =>
+      await expect(
         preparePaths({
           normalizedRoutes: [staticNormalizedRoute('/about')],
           processPaths: () => invalidReturnValue,
         })
-      ).toThrow(/super-sitemap: `processPaths` must return|super-sitemap: `processPaths` returned/);
+      ).rejects.toThrow(
+        /super-sitemap: `processPaths` must return|super-sitemap: `processPaths` returned/
+      );
     }
   });
 
-  it('formats route param errors with the adapter name and remediation guidance', () => {
-    expect(() => preparePaths({ normalizedRoutes: [blogSlugNormalizedRoute] })).toThrow(
+  it('formats route param errors with the adapter name and remediation guidance', async () => {
+    await expect(preparePaths({ normalizedRoutes: [blogSlugNormalizedRoute] })).rejects.toThrow(
       "super-sitemap: paramValues not provided for route: '/blog/[slug]'. Update excludeRoutePatterns to exclude this route or add data for this route's params to paramValues."
     );
 
-    expect(() =>
+    await expect(
       preparePaths({
         normalizedRoutes: [blogSlugNormalizedRoute],
         paramValues: { '/missing/[slug]': ['x'] },
       })
-    ).toThrow(
+    ).rejects.toThrow(
       "super-sitemap: paramValues were provided for a route that does not exist: '/missing/[slug]'. Remove this property from paramValues or update your route source."
     );
   });
 
-  it('formats param value count mismatch errors with plain-language guidance', () => {
-    expect(() =>
+  it('formats param value count mismatch errors with plain-language guidance', async () => {
+    await expect(
       preparePaths({
         normalizedRoutes: [blogSlugNormalizedRoute],
         paramValues: { '/blog/[slug]': [['hello-world', 'extra']] },
       })
-    ).toThrow(
+    ).rejects.toThrow(
       "super-sitemap: paramValues for route '/blog/[slug]' must provide 1 value per path: slug. Received 2 values."
     );
   });
 
-  it('formats unsupported param value shape errors with supported TypeScript forms', () => {
-    expect(() =>
+  it('formats unsupported param value shape errors with supported TypeScript forms', async () => {
+    await expect(
       preparePaths({
         normalizedRoutes: [blogSlugNormalizedRoute],
         paramValues: { '/blog/[slug]': [{ values: 'hello-world' }] } as unknown as ParamValues,
       })
-    ).toThrow(
+    ).rejects.toThrow(
       "super-sitemap: paramValues for route '/blog/[slug]' must be string[], string[][], or ParamValue[]."
     );
   });
 });
 
+describe('core sitemap paramValues resolvers', () => {
+  it('awaits sync and async resolvers and passes request context', async () => {
+    const blogResolver = vi.fn(async () => ['hello-world', 'another-post']);
+    const newsResolver = vi.fn(() => [{ lastmod: '2026-01-02', values: ['launch'] }]);
+
+    const body = await getBody({
+      maxPerPage: 2,
+      normalizedRoutes: [blogSlugNormalizedRoute, newsSlugNormalizedRoute],
+      origin: 'https://example.com',
+      page: '2',
+      paramValues: { '/blog/[slug]': blogResolver, '/news/[slug]': newsResolver },
+    });
+
+    expect(blogResolver).toHaveBeenCalledWith({ maxPerPage: 2, page: '2', route: '/blog/[slug]' });
+    expect(newsResolver).toHaveBeenCalledWith({ maxPerPage: 2, page: '2', route: '/news/[slug]' });
+    expect(body).toContain('<loc>https://example.com/news/launch</loc>');
+    expect(body).toContain('<lastmod>2026-01-02</lastmod>');
+  });
+
+  it("runs only the resolvers of a grouped page's group", async () => {
+    const blogResolver = vi.fn(async () => ['hello-world']);
+    const newsResolver = vi.fn(async () => ['launch']);
+    const config = {
+      groups: [
+        { name: 'blog', routes: [/^\/blog/] },
+        { name: 'news', routes: [/^\/news/] },
+      ],
+      normalizedRoutes: [blogSlugNormalizedRoute, newsSlugNormalizedRoute],
+      origin: 'https://example.com',
+      paramValues: { '/blog/[slug]': blogResolver, '/news/[slug]': newsResolver },
+    };
+
+    const body = await getBody({ ...config, page: 'news' });
+
+    expect(blogResolver).not.toHaveBeenCalled();
+    expect(newsResolver).toHaveBeenCalledWith({
+      group: 'news',
+      maxPerPage: 50_000,
+      page: 'news',
+      route: '/news/[slug]',
+    });
+    expect(body).toContain('<loc>https://example.com/news/launch</loc>');
+
+    await getBody(config);
+    await getBody({ ...config, page: 'news', processPaths: (paths) => paths });
+    expect(blogResolver).toHaveBeenCalledTimes(2);
+    expect(newsResolver).toHaveBeenCalledTimes(3);
+  });
+
+  it('starts every resolver before awaiting any of them', async () => {
+    const started: string[] = [];
+    let releaseBlog: (values: string[]) => void = () => {};
+
+    const paths = preparePaths({
+      normalizedRoutes: [blogSlugNormalizedRoute, newsSlugNormalizedRoute],
+      paramValues: {
+        '/blog/[slug]': () => {
+          started.push('blog');
+          return new Promise<string[]>((resolve) => {
+            releaseBlog = resolve;
+          });
+        },
+        '/news/[slug]': async () => {
+          started.push('news');
+          return ['launch'];
+        },
+      },
+    });
+
+    await vi.waitFor(() => expect(started).toEqual(['blog', 'news']));
+    releaseBlog(['hello-world']);
+
+    expect((await paths).map(({ path }) => path)).toEqual(['/blog/hello-world', '/news/launch']);
+  });
+
+  it('propagates resolver errors unchanged', async () => {
+    const error = new Error('database unavailable');
+
+    await expect(
+      preparePaths({
+        normalizedRoutes: [blogSlugNormalizedRoute],
+        paramValues: {
+          '/blog/[slug]': async () => {
+            throw error;
+          },
+        },
+      })
+    ).rejects.toBe(error);
+  });
+
+  it('validates resolved values like inline values', async () => {
+    await expect(
+      preparePaths({
+        normalizedRoutes: [blogSlugNormalizedRoute],
+        paramValues: {
+          '/blog/[slug]': async () => [{ values: 'hello-world' }] as unknown as string[],
+        },
+      })
+    ).rejects.toThrow(
+      "super-sitemap: paramValues for route '/blog/[slug]' must be string[], string[][], or ParamValue[]."
+    );
+  });
+});
+
+describe('core sitemap extension validation', () => {
+  it('allows up to 1,000 images per path and rejects more', async () => {
+    const images = (count: number) =>
+      Array.from({ length: count }, (_, index) => ({ loc: `/images/${index}.jpg` }));
+
+    expect(
+      await preparePaths({
+        normalizedRoutes: [],
+        processPaths: () => [{ images: images(1_000), path: '/gallery' }],
+      })
+    ).toHaveLength(1);
+
+    await expect(
+      preparePaths({
+        normalizedRoutes: [],
+        processPaths: () => [{ images: images(1_001), path: '/gallery' }],
+      })
+    ).rejects.toThrow(
+      "super-sitemap: path '/gallery' has 1001 images. Sitemaps allow at most 1,000 images per URL."
+    );
+  });
+
+  it('requires image locations to be absolute URLs or root-relative paths', async () => {
+    const invalidLocs = [undefined, '', 'images/a.jpg', '//cdn.example.com/a.jpg', 'ftp://a/b'];
+
+    for (const loc of invalidLocs) {
+      await expect(
+        preparePaths({
+          normalizedRoutes: [blogSlugNormalizedRoute],
+          paramValues: {
+            '/blog/[slug]': [{ images: [{ loc } as { loc: string }], values: ['hello'] }],
+          },
+        })
+      ).rejects.toThrow(
+        "super-sitemap: `images[0]` for path '/blog/hello' must include a `loc` that is an absolute URL or a root-relative path"
+      );
+    }
+
+    await expect(
+      preparePaths({
+        normalizedRoutes: [],
+        processPaths: () => [
+          { images: [{ caption: 1 as unknown as string, loc: '/a.jpg' }], path: '/' },
+        ],
+      })
+    ).rejects.toThrow("super-sitemap: `images[0].caption` for path '/' must be a string.");
+  });
+});
+
+describe('core sitemap video validation', () => {
+  const video = {
+    contentLoc: '/videos/intro.mp4',
+    description: 'Course introduction.',
+    thumbnailLoc: '/thumbs/intro.jpg',
+    title: 'Intro',
+  };
+  const prepareVideo = (overrides: Record<string, unknown>) =>
+    preparePaths({
+      normalizedRoutes: [],
+      processPaths: () => [
+        { path: '/courses/intro', videos: [{ ...video, ...overrides } as typeof video] },
+      ],
+    });
+
+  it('accepts complete video metadata within supported ranges', async () => {
+    expect(
+      await prepareVideo({
+        duration: 28_800,
+        familyFriendly: true,
+        publicationDate: '2026-01-02T10:00:00Z',
+      })
+    ).toHaveLength(1);
+    expect(
+      await prepareVideo({ contentLoc: undefined, playerLoc: '/player/intro', duration: 1 })
+    ).toHaveLength(1);
+  });
+
+  it('requires title, description, thumbnail, and a content or player location', async () => {
+    await expect(prepareVideo({ title: '' })).rejects.toThrow(
+      "super-sitemap: `videos[0].title` for path '/courses/intro' is required."
+    );
+    await expect(prepareVideo({ description: undefined })).rejects.toThrow(
+      "super-sitemap: `videos[0].description` for path '/courses/intro' is required."
+    );
+    await expect(prepareVideo({ description: 'x'.repeat(2_049) })).rejects.toThrow(
+      "super-sitemap: `videos[0].description` for path '/courses/intro' must be at most 2,048 characters."
+    );
+    await expect(prepareVideo({ thumbnailLoc: 'thumbs/intro.jpg' })).rejects.toThrow(
+      "super-sitemap: `videos[0].thumbnailLoc` for path '/courses/intro' must be an absolute URL or a root-relative path."
+    );
+    await expect(prepareVideo({ contentLoc: undefined })).rejects.toThrow(
+      "super-sitemap: `videos[0]` for path '/courses/intro' must include `contentLoc` or `playerLoc`."
+    );
+  });
+
+  it('rejects out-of-range durations and invalid dates or flags', async () => {
+    for (const duration of [0, 28_801, 1.5, '60']) {
+      await expect(prepareVideo({ duration })).rejects.toThrow(
+        "super-sitemap: `videos[0].duration` for path '/courses/intro' must be an integer number of seconds between 1 and 28800."
+      );
+    }
+
+    await expect(prepareVideo({ publicationDate: 'yesterday' })).rejects.toThrow(
+      "super-sitemap: `videos[0].publicationDate` for path '/courses/intro' must be an ISO 8601 date"
+    );
+    await expect(prepareVideo({ familyFriendly: 'yes' })).rejects.toThrow(
+      "super-sitemap: `videos[0].familyFriendly` for path '/courses/intro' must be a boolean."
+    );
+  });
+});
+
+describe('core sitemap news mode', () => {
+  const article = (slug: string, publicationDate: string) => ({
+    news: {
+      language: 'en',
+      publicationDate,
+      publicationName: 'The Example Times',
+      title: `Article ${slug}`,
+    },
+    values: [slug],
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-03T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('renders only articles published within the last 48 hours', async () => {
+    const xml = await getBody({
+      normalizedRoutes: [staticNormalizedRoute('/about'), newsSlugNormalizedRoute],
+      origin: 'https://example.com',
+      paramValues: {
+        '/news/[slug]': [
+          article('fresh', '2026-01-03T11:00:00Z'),
+          article('boundary', '2026-01-01T12:00:00Z'),
+          article('stale', '2026-01-01T11:59:59Z'),
+        ],
+      },
+      sitemapType: 'news',
+    });
+
+    expect(xml).toContain('xmlns:news="http://www.google.com/schemas/sitemap-news/0.9"');
+    expect(xml).toContain('<loc>https://example.com/news/fresh</loc>');
+    expect(xml).toContain('<loc>https://example.com/news/boundary</loc>');
+    expect(xml).not.toContain('/news/stale');
+    expect(xml).not.toContain('/about');
+  });
+
+  it('leaves out articles dated in the future', async () => {
+    const xml = await getBody({
+      normalizedRoutes: [newsSlugNormalizedRoute],
+      origin: 'https://example.com',
+      paramValues: {
+        '/news/[slug]': [
+          article('now', '2026-01-03T12:00:00Z'),
+          article('embargoed', '2026-01-13T12:00:00Z'),
+        ],
+      },
+      sitemapType: 'news',
+    });
+
+    expect(xml).toContain('<loc>https://example.com/news/now</loc>');
+    expect(xml).not.toContain('/news/embargoed');
+  });
+
+  it('caps news sitemap pages at 1,000 URLs even when maxPerPage is larger', async () => {
+    const options = {
+      normalizedRoutes: [newsSlugNormalizedRoute],
+      origin: 'https://example.com',
+      paramValues: {
+        '/news/[slug]': Array.from({ length: 1_001 }, (_, index) =>
+          article(`a${index}`, '2026-01-03T10:00:00Z')
+        ),
+      },
+      sitemapType: 'news' as const,
+    };
+
+    const indexBody = await getBody(options);
+    expect(indexBody).toContain('<sitemapindex');
+    expect(indexBody).toContain('<loc>https://example.com/sitemap2.xml</loc>');
+    expect(await getBody({ ...options, page: '2' })).toContain(
+      '<loc>https://example.com/news/a1000</loc>'
+    );
+  });
+
+  it('validates news metadata and the sitemap type', async () => {
+    const prepareNews = (news: Record<string, unknown>) =>
+      preparePaths({
+        normalizedRoutes: [],
+        processPaths: () => [
+          { news: { ...article('x', '2026-01-03T10:00:00Z').news, ...news }, path: '/news/x' },
+        ],
+      });
+
+    await expect(prepareNews({ title: ' ' })).rejects.toThrow(
+      "super-sitemap: `news.title` for path '/news/x' is required."
+    );
+    await expect(prepareNews({ language: 'English' })).rejects.toThrow(
+      "super-sitemap: `news.language` for path '/news/x' must be a lowercase ISO 639 language code"
+    );
+    await expect(prepareNews({ publicationDate: 'today' })).rejects.toThrow(
+      "super-sitemap: `news.publicationDate` for path '/news/x' must be an ISO 8601 date"
+    );
+    await expect(
+      getBody({
+        normalizedRoutes: [],
+        origin: 'https://example.com',
+        sitemapType: 'video' as 'news',
+      })
+    ).rejects.toThrow('super-sitemap: `sitemapType` must be "standard" or "news".');
+  });
+});
+
 describe('core sitemap getHeaders', () => {
   it('returns default headers and merges custom headers case-insensitively', () => {
     expect(getHeaders()).toEqual({
@@ -138,6 +474,22 @@ describe('core sitemap getHeaders', () => {
       'x-custom': 'y',
     });
   });
+
+  it('serves gzip-compressed sitemaps as gzip files without a content encoding', () => {
+    for (const format of ['json', 'txt', 'xml'] as const) {
+      expect(getHeaders({ compression: 'gzip', format })).toEqual({
+        'cache-control': 'max-age=0, s-maxage=3600',
+        'content-type': 'application/gzip',
+      });
+    }
+  });
+
+  it('returns a UTF-8 text content type for text sitemaps', () => {
+    expect(getHeaders({ format: 'txt' })).toEqual({
+      'cache-control': 'max-age=0, s-maxage=3600',
+      'content-type': 'text/plain; charset=utf-8',
+    });
+  });
 });
 
 describe('core sitemap getBody and response', () => {
@@ -147,7 +499,7 @@ describe('core sitemap getBody and response', () => {
     staticNormalizedRoute('/pricing'),
   ];
 
-  it('requires origin to be an absolute URL origin', () => {
+  it('requires origin to be an absolute URL origin', async () => {
     const invalidOrigins = [
       undefined,
       '',
@@ -163,43 +515,43 @@ describe('core sitemap getBody and response', () => {
       'super-sitemap: `origin` must be an absolute URL origin, e.g. "https://example.com".';
 
     for (const origin of invalidOrigins) {
-      expect(() =>
+      await expect(
         // @ts-expect-error - runtime validation covers JavaScript callers.
         getBody({ normalizedRoutes, origin })
-      ).toThrow(originError);
-      expect(() =>
+      ).rejects.toThrow(originError);
+      await expect(
         // @ts-expect-error - runtime validation covers JavaScript callers.
         response({ normalizedRoutes, origin })
-      ).toThrow(originError);
+      ).rejects.toThrow(originError);
     }
   });
 
-  it('requires maxPerPage to be a supported sitemap page size', () => {
+  it('requires maxPerPage to be a supported sitemap page size', async () => {
     const invalidMaxPerPageValues = [0, -1, 50_001, 1.5, Number.NaN, '2'];
 
     for (const maxPerPage of invalidMaxPerPageValues) {
-      expect(() =>
+      await expect(
         getBody({
           // @ts-expect-error - runtime validation covers JavaScript callers.
           maxPerPage,
           normalizedRoutes,
           origin: 'https://example.com',
         })
-      ).toThrow('maxPerPage must be an integer between 1 and 50_000.');
+      ).rejects.toThrow('maxPerPage must be an integer between 1 and 50_000.');
 
-      expect(() =>
+      await expect(
         response({
           // @ts-expect-error - runtime validation covers JavaScript callers.
           maxPerPage,
           normalizedRoutes,
           origin: 'https://example.com',
         })
-      ).toThrow('maxPerPage must be an integer between 1 and 50_000.');
+      ).rejects.toThrow('maxPerPage must be an integer between 1 and 50_000.');
     }
   });
 
   it('renders a sitemap index when paths exceed one page and pages on request', async () => {
-    const indexBody = getBody({
+    const indexBody = await getBody({
       maxPerPage: 2,
       normalizedRoutes,
       origin: 'https://example.com',
@@ -207,7 +559,7 @@ describe('core sitemap getBody and response', () => {
     expect(indexBody).toContain('<sitemapindex');
     expect(indexBody).toContain('<loc>https://example.com/sitemap2.xml</loc>');
 
-    const pageRes = response({
+    const pageRes = await response({
       maxPerPage: 2,
       normalizedRoutes,
       origin: 'https://example.com',
@@ -216,6 +568,126 @@ describe('core sitemap getBody and response', () => {
     expect(await pageRes.text()).toContain('<loc>https://example.com/pricing</loc>');
   });
 
+  it('splits pages by rendered size when alternates push a page over the byte budget', async () => {
+    const args = {
+      locales: { alternates: ['de', 'es', 'fr'], default: 'en' },
+      // Each of the four URL elements renders to about 450 bytes with its alternates.
+      maxBytesPerPage: 2_500,
+      normalizedRoutes: [
+        {
+          id: '/[[locale]]/about',
+          locale: { mode: 'optional', paramName: 'locale', segmentIndex: 0 },
+          segments: [
+            { kind: 'locale', name: 'locale' },
+            { kind: 'static', value: 'about' },
+          ],
+          source: source('/[[locale]]/about'),
+        } satisfies NormalizedRoute,
+      ],
+      origin: 'https://example.com',
+    };
+
+    const indexBody = await getBody(args);
+    expect(indexBody).toContain('<sitemapindex');
+    expect(indexBody).toContain('<loc>https://example.com/sitemap2.xml</loc>');
+    expect(indexBody).not.toContain('sitemap3.xml');
+
+    const pageBody = await getBody({ ...args, page: '2' });
+    expect(pageBody).toContain('<urlset');
+    expect(new TextEncoder().encode(pageBody).byteLength).toBeLessThanOrEqual(2_500);
+  });
+
+  it('lists and resolves child sitemaps at a configured page location', async () => {
+    const args = {
+      maxPerPage: 2,
+      normalizedRoutes,
+      origin: 'https://example.com',
+      pageLoc: '/sitemaps/[page].xml',
+    };
+
+    const indexBody = await getBody(args);
+    expect(indexBody).toContain('<loc>https://example.com/sitemaps/1.xml</loc>');
+    expect(indexBody).toContain('<loc>https://example.com/sitemaps/2.xml</loc>');
+
+    expect(await getBody({ ...args, page: '/sitemaps/2.xml' })).toBe(
+      await getBody({ ...args, page: '2' })
+    );
+    expect(await getBody({ ...args, page: '/sitemaps/3.xml' })).toBe('Invalid page param');
+
+    const cdnIndex = await getBody({
+      ...args,
+      pageLoc: (page: number) => `https://cdn.example.com/sitemap-${page}.xml`,
+    });
+    expect(cdnIndex).toContain('<loc>https://cdn.example.com/sitemap-2.xml</loc>');
+  });
+
+  it("emits each child page's most recent lastmod in the sitemap index unless disabled", async () => {
+    const args = {
+      maxPerPage: 2,
+      normalizedRoutes: [blogSlugNormalizedRoute],
+      origin: 'https://example.com',
+      paramValues: {
+        '/blog/[slug]': [
+          { lastmod: '2026-01-01', values: ['one'] },
+          { lastmod: '2026-01-05', values: ['two'] },
+          { values: ['three'] },
+        ],
+      },
+    };
+
+    const indexBody = await getBody(args);
+    expect(indexBody).toContain(`<loc>https://example.com/sitemap1.xml</loc>
+    <lastmod>2026-01-05</lastmod>
+  </sitemap>`);
+    expect(indexBody).toContain(`<loc>https://example.com/sitemap2.xml</loc>
+  </sitemap>`);
+
+    expect(await getBody({ ...args, indexLastmod: false })).not.toContain('<lastmod>');
+  });
+
+  it('renders named group sitemaps listed in an index and paginates within groups', async () => {
+    const args = {
+      additionalPaths: ['/manual.pdf'],
+      groups: [
+        { name: 'blog', routes: [/^\/blog\//] },
+        { name: 'empty', paths: [/^\/nothing\//] },
+        { name: 'pages' },
+      ],
+      maxPerPage: 2,
+      normalizedRoutes: [...normalizedRoutes, blogSlugNormalizedRoute],
+      origin: 'https://example.com',
+      paramValues: { '/blog/[slug]': ['one', 'two', 'three'] },
+    };
+
+    const indexBody = await getBody(args);
+    expect(parseLocs(indexBody)).toEqual([
+      'https://example.com/sitemap-blog.xml',
+      'https://example.com/sitemap-blog-2.xml',
+      'https://example.com/sitemap-pages.xml',
+      'https://example.com/sitemap-pages-2.xml',
+    ]);
+
+    expect(parseLocs(await getBody({ ...args, page: 'blog' }))).toEqual([
+      'https://example.com/blog/one',
+      'https://example.com/blog/two',
+    ]);
+    expect(parseLocs(await getBody({ ...args, page: '/sitemap-blog-2.xml' }))).toEqual([
+      'https://example.com/blog/three',
+    ]);
+    expect(parseLocs(await getBody({ ...args, page: 'pages-2' }))).toEqual([
+      'https://example.com/pricing',
+      'https://example.com/manual.pdf',
+    ]);
+    expect(await getBody({ ...args, page: 'empty' })).toBe('Page does not exist');
+    expect(await getBody({ ...args, page: '1' })).toBe('Page does not exist');
+
+    const customLocIndex = await getBody({
+      ...args,
+      pageLoc: (page: number, group?: string) => `/sitemaps/${group}/${page}.xml`,
+    });
+    expect(customLocIndex).toContain('<loc>https://example.com/sitemaps/blog/2.xml</loc>');
+  });
+
   it('reports pagination errors as plain strings from getBody and statuses from response', async () => {
     const invalidArgs = {
       maxPerPage: 2,
@@ -223,20 +695,204 @@ describe('core sitemap getBody and response', () => {
       origin: 'https://example.com',
     };
 
-    expect(getBody({ ...invalidArgs, page: 'invalid' })).toBe('Invalid page param');
-    expect(getBody({ ...invalidArgs, page: '99' })).toBe('Page does not exist');
+    expect(await getBody({ ...invalidArgs, page: 'invalid' })).toBe('Invalid page param');
+    expect(await getBody({ ...invalidArgs, page: '99' })).toBe('Page does not exist');
 
-    const invalidRes = response({ ...invalidArgs, page: 'invalid' });
+    const invalidRes = await response({ ...invalidArgs, page: 'invalid' });
     expect(invalidRes.status).toBe(400);
     expect(await invalidRes.text()).toBe('Invalid page param');
 
-    const notFoundRes = response({ ...invalidArgs, page: '99' });
+    const notFoundRes = await response({ ...invalidArgs, page: '99' });
     expect(notFoundRes.status).toBe(404);
     expect(await notFoundRes.text()).toBe('Page does not exist');
   });
 
+  it('streams sitemap pages when stream is enabled', async () => {
+    const streamed = await response({
+      normalizedRoutes,
+      origin: 'https://example.com',
+      stream: true,
+    });
+    const buffered = await response({ normalizedRoutes, origin: 'https://example.com' });
+
+    expect(streamed.body).toBeInstanceOf(ReadableStream);
+    expect(streamed.headers.get('content-type')).toBe('application/xml');
+    expect(await streamed.text()).toBe(await buffered.text());
+
+    const indexRes = await response({
+      maxPerPage: 2,
+      normalizedRoutes,
+      origin: 'https://example.com',
+      stream: true,
+    });
+    expect(await indexRes.text()).toContain('<sitemapindex');
+
+    await expect(
+      response({
+        normalizedRoutes,
+        origin: 'https://example.com',
+        // @ts-expect-error - runtime validation covers JavaScript callers.
+        stream: 'yes',
+      })
+    ).rejects.toThrow('super-sitemap: `stream` must be a boolean.');
+  });
+
+  it('gzip-compresses sitemap pages and indexes when compression is enabled', async () => {
+    const gunzip = async (res: Response) =>
+      new Response(res.body?.pipeThrough(new DecompressionStream('gzip'))).text();
+
+    for (const stream of [false, true]) {
+      const res = await response({
+        compression: 'gzip',
+        normalizedRoutes,
+        origin: 'https://example.com',
+        stream,
+      });
+
+      expect(res.headers.get('content-encoding')).toBeNull();
+      expect(res.headers.get('content-type')).toBe('application/gzip');
+      expect(await gunzip(res)).toBe(
+        await getBody({ normalizedRoutes, origin: 'https://example.com' })
+      );
+    }
+
+    const indexRes = await response({
+      compression: 'gzip',
+      maxPerPage: 2,
+      normalizedRoutes,
+      origin: 'https://example.com',
+    });
+    expect(await gunzip(indexRes)).toContain('<loc>https://example.com/sitemap2.xml.gz</loc>');
+
+    const notFoundRes = await response({
+      compression: 'gzip',
+      maxPerPage: 2,
+      normalizedRoutes,
+      origin: 'https://example.com',
+      page: '99',
+    });
+    expect(notFoundRes.headers.get('content-encoding')).toBeNull();
+    expect(await notFoundRes.text()).toBe('Page does not exist');
+
+    await expect(
+      response({
+        // @ts-expect-error - runtime validation covers JavaScript callers.
+        compression: 'brotli',
+        normalizedRoutes,
+        origin: 'https://example.com',
+      })
+    ).rejects.toThrow('super-sitemap: `compression` must be "gzip" or undefined.');
+  });
+
+  it('adds the stylesheet instruction to sitemaps, indexes, and streamed pages', async () => {
+    const args = {
+      normalizedRoutes,
+      origin: 'https://example.com',
+      stylesheet: '/sitemap.xsl',
+    };
+    const instruction = '<?xml-stylesheet type="text/xsl" href="/sitemap.xsl"?>';
+
+    expect(await getBody(args)).toContain(instruction);
+    expect(await getBody({ ...args, maxPerPage: 1 })).toContain(instruction);
+    expect(await (await response({ ...args, stream: true })).text()).toContain(instruction);
+
+    await expect(getBody({ ...args, stylesheet: 'sitemap.xsl' })).rejects.toThrow(
+      'super-sitemap: `stylesheet` must be a root-relative path or absolute URL, e.g. "/sitemap.xsl".'
+    );
+  });
+
+  it('renders text sitemap pages with an XML index of text sitemaps', async () => {
+    const args = { format: 'txt', normalizedRoutes, origin: 'https://example.com' } as const;
+
+    const res = await response(args);
+    expect(res.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+    expect(await res.text()).toBe(
+      'https://example.com/\nhttps://example.com/about\nhttps://example.com/pricing\n'
+    );
+
+    const indexRes = await response({ ...args, maxPerPage: 2 });
+    expect(indexRes.headers.get('content-type')).toBe('application/xml');
+    expect(parseLocs(await indexRes.text())).toEqual([
+      'https://example.com/sitemap1.txt',
+      'https://example.com/sitemap2.txt',
+    ]);
+
+    expect(await getBody({ ...args, maxPerPage: 2, page: '2' })).toBe(
+      'https://example.com/pricing\n'
+    );
+    expect(await getBody({ ...args, maxPerPage: 2, page: '/sitemap2.txt' })).toBe(
+      'https://example.com/pricing\n'
+    );
+    expect(await getBody({ ...args, maxPerPage: 2, page: '3' })).toBe('Page does not exist');
+
+    await expect(getBody({ ...args, sitemapType: 'news' })).rejects.toThrow(
+      'super-sitemap: `format: "txt"` cannot be used with `sitemapType: "news"`.'
+    );
+    await expect(
+      // @ts-expect-error - runtime validation covers JavaScript callers.
+      getBody({ ...args, format: 'csv' })
+    ).rejects.toThrow('super-sitemap: `format` must be "xml", "txt", or "json".');
+  });
+
+  it('renders JSON sitemap pages and indexes with the same pagination', async () => {
+    const args = { format: 'json', normalizedRoutes, origin: 'https://example.com' } as const;
+
+    const res = await response(args);
+    expect(res.headers.get('content-type')).toBe('application/json');
+    expect(await res.json()).toEqual({
+      kind: 'urlset',
+      urls: [
+        { loc: 'https://example.com/' },
+        { loc: 'https://example.com/about' },
+        { loc: 'https://example.com/pricing' },
+      ],
+    });
+
+    const indexRes = await response({ ...args, maxPerPage: 2 });
+    expect(indexRes.headers.get('content-type')).toBe('application/json');
+    expect(await indexRes.json()).toEqual({
+      kind: 'sitemapindex',
+      sitemaps: [
+        { loc: 'https://example.com/sitemap1.json' },
+        { loc: 'https://example.com/sitemap2.json' },
+      ],
+    });
+
+    expect(JSON.parse(await getBody({ ...args, maxPerPage: 2, page: '2' }))).toEqual({
+      kind: 'urlset',
+      urls: [{ loc: 'https://example.com/pricing' }],
+    });
+    expect(await getBody({ ...args, maxPerPage: 2, page: '3' })).toBe('Page does not exist');
+  });
+
+  it('generates the root sitemap and every child sitemap as static files', async () => {
+    const args = { normalizedRoutes, origin: 'https://example.com' };
+
+    expect(await getFiles(args)).toEqual([
+      { body: await getBody(args), path: '/sitemap.xml', urls: 3 },
+    ]);
+
+    const files = await getFiles({ ...args, maxPerPage: 2, pageLoc: '/sitemaps/[page].xml' });
+    expect(files.map(({ path, urls }) => [path, urls])).toEqual([
+      ['/sitemap.xml', 0],
+      ['/sitemaps/1.xml', 2],
+      ['/sitemaps/2.xml', 1],
+    ]);
+    expect(files[2]?.body).toBe(
+      await getBody({ ...args, maxPerPage: 2, page: '2', pageLoc: '/sitemaps/[page].xml' })
+    );
+
+    const txtFiles = await getFiles({ ...args, format: 'txt', maxPerPage: 2 });
+    expect(txtFiles.map(({ path }) => path)).toEqual([
+      '/sitemap.xml',
+      '/sitemap1.txt',
+      '/sitemap2.txt',
+    ]);
+    expect(txtFiles[2]?.body).toBe('https://example.com/pricing\n');
+  });
+
   it('returns a 200 XML response with merged headers', async () => {
-    const res = response({
+    const res = await response({
       headers: { 'Cache-Control': 'max-age=0, s-maxage=60' },
       normalizedRoutes,
       origin: 'https://example.com',
@@ -1,14 +1,62 @@
-import { getTotalPages, paginatePaths } from './pagination.js';
+import { renderJsonUrl, renderSitemapIndexJson, renderSitemapJson } from './json.js';
+import {
+  createPageLocResolver,
+  getGroupPageId,
+  matchPageLoc,
+  validatePageLoc,
+} from './page-locs.js';
+import {
+  MAX_SITEMAP_BYTES,
+  getPageStartIndexes,
+  paginatePaths,
+  type PageLimits,
+} from './pagination.js';
+import { resolveParamValues } from './param-values.js';
 import { SitemapRouteParamError, generatePathsFromNormalizedRoutes } from './path-generation.js';
-import { deduplicatePaths, generateAdditionalPaths, sortPaths } from './paths.js';
-import type { NormalizedRoute, PathObj, SitemapConfig } from './types.js';
-import { renderSitemapIndexXml, renderSitemapXml } from './xml.js';
-
+import { deduplicatePaths, generateAdditionalPaths, getLatestLastmod, sortPaths } from './paths.js';
+import {
+  MAX_NEWS_URLS_PER_SITEMAP,
+  selectRecentNewsPaths,
+  validatePathExtensions,
+} from './sitemap-extensions.js';
+import {
+  assignPathsToGroups,
+  findGroupOfPage,
+  routeCanHavePathsInGroup,
+  validateGroups,
+} from './sitemap-groups.js';
+import { validateStylesheet } from './stylesheet.js';
+import { renderSitemapTxt, renderTxtLine } from './txt.js';
+import type {
+  NormalizedRoute,
+  ParamMatchers,
+  ParamValuesContext,
+  PathObj,
+  ResolvedParamValues,
+  SitemapConfig,
+} from './types.js';
+import {
+  MAX_URLSET_ENVELOPE_BYTES,
+  renderNewsSitemapXml,
+  renderNewsUrlElement,
+  renderSitemapIndexXml,
+  renderSitemapXml,
+  renderSitemapXmlStream,
+  renderStylesheetInstruction,
+  renderUrlElement,
+} from './xml.js';
+
+const CONTENT_TYPES = {
+  json: 'application/json',
+  txt: 'text/plain; charset=utf-8',
+  xml: 'application/xml',
+} as const;
 const DEFAULT_MAX_PER_PAGE = 50_000;
+const GZIP_CONTENT_TYPE = 'application/gzip';
 const ORIGIN_ERROR =
   'super-sitemap: `origin` must be an absolute URL origin, e.g. "https://example.com".';
 
-export type GetHeadersOptions = {
+export type GetHeadersOptions = Pick<SitemapConfig, 'compression' | 'format'> & {
   customHeaders?: Record<string, string>;
 };
 
@@ -20,28 +68,64 @@ export type PreparePathsOptions = Pick<
   | 'locales'
   | 'paramValues'
   | 'processPaths'
+  | 'routeLocales'
   | 'sort'
 > & {
+  /** Param matchers by name; `paramValues` they reject throw. */
+  matchers?: ParamMatchers;
   /** Normalized routes produced by the adapter, in output order. */
   normalizedRoutes: NormalizedRoute[];
+  /** Sitemap origin; selects this host's locale with `locales.origins`. */
+  origin?: string;
+  /** Request context passed to `paramValues` resolver functions. */
+  paramValuesContext?: Omit<ParamValuesContext, 'route'>;
 };
 
-export type GetBodyOptions = Pick<SitemapConfig, 'maxPerPage' | 'origin' | 'page'> &
-  PreparePathsOptions;
+export type GetBodyOptions = Pick<
+  SitemapConfig,
+  | 'format'
+  | 'groups'
+  | 'indexLastmod'
+  | 'maxPerPage'
+  | 'origin'
+  | 'page'
+  | 'pageLoc'
+  | 'sitemapType'
+  | 'stylesheet'
+> &
+  PreparePathsOptions & {
+    /** Test hook: uncompressed byte budget per sitemap file. Defaults to 50 MB. */
+    maxBytesPerPage?: number;
+  };
+
+export type ResponseOptions = GetBodyOptions &
+  Pick<SitemapConfig, 'compression' | 'headers' | 'stream'>;
 
-export type ResponseOptions = GetBodyOptions & Pick<SitemapConfig, 'headers'>;
+export type GetFilesOptions = Omit<GetBodyOptions, 'page'>;
 
-type RenderSitemapResult =
-  | { body: string; error: null }
+/**
+ * One file of a statically generated sitemap.
+ */
+export type SitemapFile = {
+  /** Root-relative path the file is served at, e.g. `/sitemap2.xml`. */
+  path: string;
+  body: string;
+  /** Number of URLs the file lists; `0` for a sitemap index. */
+  urls: number;
+};
+
+type SitemapDocument =
+  | { error: null; kind: 'sitemapindex'; lastmods: Array<string | undefined>; locs: string[] }
+  | { error: null; kind: 'urlset'; paths: PathObj[] }
   | { error: 'invalid-page' }
   | { error: 'not-found' };
 
 /**
  * Prepares final public sitemap path objects before rendering or sampling:
  * normalized-route interpolation, additional paths, `processPaths`,
- * deduplication, and optional sorting.
+ * deduplication, optional sorting, and sitemap extension validation.
  */
-export function preparePaths(options: PreparePathsOptions): PathObj[] {
+export async function preparePaths(options: PreparePathsOptions): Promise<PathObj[]> {
   validateNoLegacyLangConfig(options);
 
   const {
@@ -49,9 +133,13 @@ export function preparePaths(options: PreparePathsOptions): PathObj[] {
     defaultChangefreq,
     defaultPriority,
     locales,
+    matchers,
     normalizedRoutes,
-    paramValues,
+    origin,
+    paramValues = {},
+    paramValuesContext = { maxPerPage: DEFAULT_MAX_PER_PAGE },
     processPaths,
+    routeLocales,
     sort = false,
   } = options;
 
@@ -62,8 +150,11 @@ export function preparePaths(options: PreparePathsOptions): PathObj[] {
       defaultChangefreq,
       defaultPriority,
       locales,
+      matchers,
       normalizedRoutes,
-      paramValues,
+      origin,
+      paramValues: await resolveParamValues(paramValues, paramValuesContext),
+      routeLocales,
     }),
     ...generateAdditionalPaths({ additionalPaths, defaultChangefreq, defaultPriority }),
   ];
@@ -74,36 +165,155 @@ export function preparePaths(options: PreparePathsOptions): PathObj[] {
     validateProcessedPaths(paths);
   }
 
-  return sortPaths(deduplicatePaths(paths), sort);
+  paths = sortPaths(deduplicatePaths(paths), sort);
+  validatePathExtensions(paths);
+
+  return paths;
 }
 
 /**
- * Generates an XML sitemap or sitemap index response body.
+ * Generates an XML, text, or JSON sitemap, or sitemap index, response body.
  */
-export function getBody({
+export async function getBody({
+  format = 'xml',
+  groups,
+  indexLastmod = true,
+  maxBytesPerPage = MAX_SITEMAP_BYTES,
   maxPerPage = DEFAULT_MAX_PER_PAGE,
   origin,
   page,
+  pageLoc,
+  sitemapType = 'standard',
+  stylesheet,
+  ...prepareOptions
+}: GetBodyOptions): Promise<string> {
+  validateOrigin(origin);
+  validateMaxPerPage(maxPerPage);
+  validateSitemapType(sitemapType);
+  validateFormat(format, sitemapType);
+  validatePageLoc(pageLoc);
+  validateIndexLastmod(indexLastmod);
+  validateGroups(groups);
+  validateStylesheet(stylesheet);
+
+  const group = groups === undefined ? undefined : findGroupOfPage(groups, page);
+  const document = selectSitemapDocument({
+    format,
+    getPageLoc: createPageLocResolver({ format, grouped: groups !== undefined, pageLoc }),
+    groups,
+    indexLastmod,
+    maxBytesPerPage,
+    maxPerPage,
+    normalizedRoutes: prepareOptions.normalizedRoutes,
+    origin,
+    page,
+    paths: await preparePaths({
+      ...scopePrepareOptionsToGroup(prepareOptions, groups, group),
+      origin,
+      paramValuesContext: { group, maxPerPage, page },
+    }),
+    sitemapType,
+    stylesheet,
+  });
+
+  if (document.error === 'invalid-page') return 'Invalid page param';
+  if (document.error === 'not-found') return 'Page does not exist';
+
+  return renderSitemapDocument({ document, format, origin, sitemapType, stylesheet });
+}
+
+/**
+ * Generates every file of a static sitemap: the root sitemap, e.g.
+ * `/sitemap.xml`, and when it is an index, each child sitemap it lists.
+ *
+ * @remarks
+ * Paths are prepared once, so `paramValues` resolvers run once for all files.
+ * The root file of a text sitemap index is `/sitemap.xml`, because the index is
+ * XML. Child files are written at the path of their `pageLoc`, even when it is
+ * an absolute URL on another host.
+ */
+export async function getFiles({
+  format = 'xml',
+  groups,
+  indexLastmod = true,
+  maxBytesPerPage = MAX_SITEMAP_BYTES,
+  maxPerPage = DEFAULT_MAX_PER_PAGE,
+  origin,
+  pageLoc,
+  sitemapType = 'standard',
+  stylesheet,
   ...prepareOptions
-}: GetBodyOptions): string {
+}: GetFilesOptions): Promise<SitemapFile[]> {
   validateOrigin(origin);
   validateMaxPerPage(maxPerPage);
+  validateSitemapType(sitemapType);
+  validateFormat(format, sitemapType);
+  validatePageLoc(pageLoc);
+  validateIndexLastmod(indexLastmod);
+  validateGroups(groups);
+  validateStylesheet(stylesheet);
+
+  const selectOptions = {
+    format,
+    getPageLoc: createPageLocResolver({ format, grouped: groups !== undefined, pageLoc }),
+    groups,
+    indexLastmod,
+    maxBytesPerPage,
+    maxPerPage,
+    normalizedRoutes: prepareOptions.normalizedRoutes,
+    origin,
+    paths: await preparePaths({
+      ...prepareOptions,
+      origin,
+      paramValuesContext: { maxPerPage },
+    }),
+    sitemapType,
+    stylesheet,
+  };
+  const renderOptions = { format, origin, sitemapType, stylesheet };
+  const root = selectSitemapDocument(selectOptions);
+
+  if (root.error !== null) return [];
+
+  const rootExtension = root.kind === 'sitemapindex' && format === 'txt' ? 'xml' : format;
+  const files = [
+    {
+      body: renderSitemapDocument({ ...renderOptions, document: root }),
+      path: `/sitemap.${rootExtension}`,
+      urls: root.kind === 'urlset' ? root.paths.length : 0,
+    },
+  ];
 
-  const result = renderSitemap({ maxPerPage, origin, page, paths: preparePaths(prepareOptions) });
+  if (root.kind === 'sitemapindex') {
+    for (const loc of root.locs) {
+      const document = selectSitemapDocument({ ...selectOptions, page: loc });
+      if (document.error !== null) continue;
 
-  if (result.error === 'invalid-page') return 'Invalid page param';
-  if (result.error === 'not-found') return 'Page does not exist';
+      files.push({
+        body: renderSitemapDocument({ ...renderOptions, document }),
+        path: new URL(loc, origin).pathname,
+        urls: document.kind === 'urlset' ? document.paths.length : 0,
+      });
+    }
+  }
 
-  return result.body;
+  return files;
 }
 
 /**
  * Returns sitemap response headers with custom values merged case-insensitively.
+ * Gzip-compressed responses are served as `.gz` files, `application/gzip` with
+ * no `content-encoding`, so every client receives the same bytes and no
+ * `Accept-Encoding` negotiation is needed.
  */
-export function getHeaders({ customHeaders = {} }: GetHeadersOptions = {}): Record<string, string> {
+export function getHeaders({
+  compression,
+  customHeaders = {},
+  format = 'xml',
+}: GetHeadersOptions = {}): Record<string, string> {
   return {
     'cache-control': 'max-age=0, s-maxage=3600',
-    'content-type': 'application/xml',
+    'content-type': compression === 'gzip' ? GZIP_CONTENT_TYPE : CONTENT_TYPES[format],
     ...Object.fromEntries(
       Object.entries(customHeaders).map(([key, value]) => [key.toLowerCase(), value])
     ),
@@ -111,82 +321,359 @@ export function getHeaders({ customHeaders = {} }: GetHeadersOptions = {}): Reco
 }
 
 /**
- * Generates a `Response` containing an XML sitemap, sitemap index, or
- * pagination error status.
+ * Generates a `Response` containing an XML, text, or JSON sitemap, sitemap
+ * index, or pagination error status.
  */
-export function response({
+export async function response({
+  compression,
+  format = 'xml',
+  groups,
   headers = {},
+  indexLastmod = true,
+  maxBytesPerPage = MAX_SITEMAP_BYTES,
   maxPerPage = DEFAULT_MAX_PER_PAGE,
   origin,
   page,
+  pageLoc,
+  sitemapType = 'standard',
+  stream = false,
+  stylesheet,
   ...prepareOptions
-}: ResponseOptions): Response {
+}: ResponseOptions): Promise<Response> {
   validateOrigin(origin);
   validateMaxPerPage(maxPerPage);
+  validateSitemapType(sitemapType);
+  validateStream(stream);
+  validateCompression(compression);
+  validateFormat(format, sitemapType);
+  validatePageLoc(pageLoc);
+  validateIndexLastmod(indexLastmod);
+  validateGroups(groups);
+  validateStylesheet(stylesheet);
+
+  const group = groups === undefined ? undefined : findGroupOfPage(groups, page);
+  const document = selectSitemapDocument({
+    format,
+    getPageLoc: createPageLocResolver({
+      compression,
+      format,
+      grouped: groups !== undefined,
+      pageLoc,
+    }),
+    groups,
+    indexLastmod,
+    maxBytesPerPage,
+    maxPerPage,
+    normalizedRoutes: prepareOptions.normalizedRoutes,
+    origin,
+    page,
+    paths: await preparePaths({
+      ...scopePrepareOptionsToGroup(prepareOptions, groups, group),
+      origin,
+      paramValuesContext: { group, maxPerPage, page },
+    }),
+    sitemapType,
+    stylesheet,
+  });
 
-  const result = renderSitemap({ maxPerPage, origin, page, paths: preparePaths(prepareOptions) });
-
-  if (result.error === 'invalid-page') {
+  if (document.error === 'invalid-page') {
     return new Response('Invalid page param', { status: 400 });
   }
-  if (result.error === 'not-found') {
+  if (document.error === 'not-found') {
     return new Response('Page does not exist', { status: 404 });
   }
 
-  return new Response(result.body, { headers: getHeaders({ customHeaders: headers }) });
+  const body =
+    stream && document.kind === 'urlset' && format === 'xml' && sitemapType === 'standard'
+      ? renderSitemapXmlStream(origin, document.paths, { stylesheet })
+      : renderSitemapDocument({ document, format, origin, sitemapType, stylesheet });
+
+  return new Response(compression === 'gzip' ? compressGzip(body) : body, {
+    headers: getHeaders({
+      compression,
+      customHeaders: headers,
+      format: document.kind === 'sitemapindex' && format === 'txt' ? 'xml' : format,
+    }),
+  });
 }
 
 /**
- * Renders a sitemap page, a sitemap index when paths exceed one page, or a
+ * Selects the sitemap page, the sitemap index when paths exceed one page, or a
  * pagination error code. Keeps the body/status decision in one place for
- * `getBody` and `response`.
+ * `getBody` and `response`, which then render the document as a string or
+ * stream.
+ *
+ * Pages end at `maxPerPage` URLs or at the protocol's 50 MB uncompressed limit,
+ * whichever comes first, measured from each rendered `<url>` element. News
+ * sitemaps contain only recent articles and are paginated at Google's
+ * 1,000-URL cap, so a busy news section becomes an index of news sitemaps.
+ * With `groups`, the root is always an index of the non-empty groups' pages.
+ * Text and JSON sitemaps paginate the same way, measured by their rendered
+ * lines and URL objects.
  */
-function renderSitemap({
+function selectSitemapDocument({
+  format,
+  getPageLoc,
+  groups,
+  indexLastmod,
+  maxBytesPerPage,
   maxPerPage,
+  normalizedRoutes,
   origin,
   page,
   paths,
+  sitemapType,
+  stylesheet,
 }: {
+  format: NonNullable<SitemapConfig['format']>;
+  getPageLoc: (page: number, group?: string) => string;
+  groups?: SitemapConfig['groups'];
+  indexLastmod: boolean;
+  maxBytesPerPage: number;
   maxPerPage: number;
+  normalizedRoutes: NormalizedRoute[];
   origin: string;
   page?: string;
   paths: PathObj[];
-}): RenderSitemapResult {
+  sitemapType: NonNullable<SitemapConfig['sitemapType']>;
+  stylesheet?: string;
+}): SitemapDocument {
+  const isNews = sitemapType === 'news';
+  const sitemapPaths = isNews ? selectRecentNewsPaths(paths) : paths;
+  const renderUrl = isNews
+    ? renderNewsUrlElement
+    : { json: renderJsonUrl, txt: renderTxtLine, xml: renderUrlElement }[format];
+  const encoder = new TextEncoder();
+  const limits: PageLimits = {
+    maxBytesPerPage:
+      maxBytesPerPage -
+      MAX_URLSET_ENVELOPE_BYTES -
+      encoder.encode(renderStylesheetInstruction(stylesheet)).byteLength,
+    maxPerPage: isNews ? Math.min(maxPerPage, MAX_NEWS_URLS_PER_SITEMAP) : maxPerPage,
+    measurePath: (pathObj) => encoder.encode(renderUrl(origin, pathObj)).byteLength,
+  };
+
+  if (groups !== undefined) {
+    return selectGroupedSitemapDocument({
+      getPageLoc,
+      groups,
+      indexLastmod,
+      limits,
+      normalizedRoutes,
+      origin,
+      page,
+      paths: sitemapPaths,
+    });
+  }
+
   if (!page) {
+    const startIndexes = getPageStartIndexes(sitemapPaths, limits);
+    if (startIndexes.length <= 1) {
+      return { error: null, kind: 'urlset', paths: sitemapPaths };
+    }
+
     return {
-      body:
-        paths.length <= maxPerPage
-          ? renderSitemapXml(origin, paths)
-          : renderSitemapIndexXml(origin, getTotalPages(paths, maxPerPage)),
       error: null,
+      kind: 'sitemapindex',
+      lastmods: indexLastmod
+        ? startIndexes.map((start, index) =>
+            getLatestLastmod(sitemapPaths.slice(start, startIndexes[index + 1]))
+          )
+        : [],
+      locs: startIndexes.map((_, index) => getPageLoc(index + 1)),
     };
   }
 
-  const paginatedPaths = paginatePaths({ maxPerPage, page, paths });
+  const paginatedPaths = paginatePaths({
+    ...limits,
+    matchPage: (page, totalPages) => matchPageLoc({ getPageLoc, origin, page, totalPages }),
+    page,
+    paths: sitemapPaths,
+  });
   if (paginatedPaths.error !== null) {
     return { error: paginatedPaths.error };
   }
 
-  return { body: renderSitemapXml(origin, paginatedPaths.paths), error: null };
+  return { error: null, kind: 'urlset', paths: paginatedPaths.paths };
+}
+
+/**
+ * Selects a page of a grouped sitemap, or the index of every group page.
+ *
+ * Each group paginates on its own; `page` accepts a group page id (`blog`,
+ * `blog-2`) or its location.
+ */
+function selectGroupedSitemapDocument({
+  getPageLoc,
+  groups,
+  indexLastmod,
+  limits,
+  normalizedRoutes,
+  origin,
+  page,
+  paths,
+}: {
+  getPageLoc: (page: number, group?: string) => string;
+  groups: NonNullable<SitemapConfig['groups']>;
+  indexLastmod: boolean;
+  limits: PageLimits;
+  normalizedRoutes: NormalizedRoute[];
+  origin: string;
+  page?: string;
+  paths: PathObj[];
+}): SitemapDocument {
+  const groupPages = assignPathsToGroups({ groups, normalizedRoutes, paths }).flatMap(
+    ({ name, paths: groupPaths }) => {
+      const startIndexes = getPageStartIndexes(groupPaths, limits);
+
+      return startIndexes.map((start, index) => ({
+        id: getGroupPageId(name, index + 1),
+        loc: getPageLoc(index + 1, name),
+        paths: groupPaths.slice(start, startIndexes[index + 1]),
+      }));
+    }
+  );
+
+  if (!page) {
+    return {
+      error: null,
+      kind: 'sitemapindex',
+      lastmods: indexLastmod ? groupPages.map(({ paths }) => getLatestLastmod(paths)) : [],
+      locs: groupPages.map(({ loc }) => loc),
+    };
+  }
+
+  const pageIndex = groupPages.findIndex(({ id }) => id === page);
+  const pageInt =
+    pageIndex === -1
+      ? matchPageLoc({
+          getPageLoc: (number) => groupPages[number - 1].loc,
+          origin,
+          page,
+          totalPages: groupPages.length,
+        })
+      : pageIndex + 1;
+
+  return pageInt === undefined
+    ? { error: 'not-found' }
+    : { error: null, kind: 'urlset', paths: groupPages[pageInt - 1].paths };
+}
+
+/**
+ * Leaves out routes whose `paramValues` resolvers can't produce paths in the
+ * requested group, so a grouped sitemap page runs only its own group's
+ * resolvers. With `processPaths`, which may move paths to other routes, every
+ * route is kept.
+ */
+function scopePrepareOptionsToGroup(
+  options: PreparePathsOptions,
+  groups: SitemapConfig['groups'],
+  group: string | undefined
+): PreparePathsOptions {
+  const { normalizedRoutes, paramValues = {}, processPaths, routeLocales } = options;
+  if (groups === undefined || group === undefined || processPaths !== undefined) return options;
+
+  const skippedRoutes = new Set(
+    Object.entries(paramValues as Record<string, unknown>)
+      .filter(
+        ([routeKey, value]) =>
+          typeof value === 'function' && !routeCanHavePathsInGroup({ group, groups, routeKey })
+      )
+      .map(([routeKey]) => routeKey)
+  );
+  if (!skippedRoutes.size) return options;
+
+  const keep = ([routeKey]: [string, unknown]) => !skippedRoutes.has(routeKey);
+
+  return {
+    ...options,
+    normalizedRoutes: normalizedRoutes.filter(
+      ({ source }) => !skippedRoutes.has(source.compatibilityKey)
+    ),
+    paramValues: Object.fromEntries(Object.entries(paramValues).filter(keep)),
+    ...(routeLocales === undefined
+      ? {}
+      : { routeLocales: Object.fromEntries(Object.entries(routeLocales).filter(keep)) }),
+  };
+}
+
+/**
+ * Renders a selected sitemap page as an XML, text, or JSON string, and a
+ * sitemap index as a JSON string for JSON sitemaps or XML otherwise.
+ */
+function renderSitemapDocument({
+  document,
+  format,
+  origin,
+  sitemapType,
+  stylesheet,
+}: {
+  document: Extract<SitemapDocument, { error: null }>;
+  format: NonNullable<SitemapConfig['format']>;
+  origin: string;
+  sitemapType: NonNullable<SitemapConfig['sitemapType']>;
+  stylesheet?: string;
+}): string {
+  if (document.kind === 'sitemapindex') {
+    const { lastmods, locs } = document;
+    if (format === 'json') return renderSitemapIndexJson(origin, locs, lastmods);
+
+    return renderSitemapIndexXml(origin, locs.length, {
+      getPageLoc: (page) => locs[page - 1],
+      lastmods,
+      stylesheet,
+    });
+  }
+
+  if (format === 'json') return renderSitemapJson(origin, document.paths);
+  if (format === 'txt') return renderSitemapTxt(origin, document.paths);
+
+  return sitemapType === 'news'
+    ? renderNewsSitemapXml(origin, document.paths, { stylesheet })
+    : renderSitemapXml(origin, document.paths, { stylesheet });
+}
+
+/**
+ * Gzip-compresses a response body with the web `CompressionStream`, which is
+ * available in Node, Bun, Deno, edge runtimes, and browsers.
+ */
+function compressGzip(body: ReadableStream<Uint8Array> | string): ReadableStream<Uint8Array> {
+  const stream = typeof body === 'string' ? new Blob([body]).stream() : body;
+
+  return stream.pipeThrough(new CompressionStream('gzip'));
 }
 
 function generateNormalizedRoutePaths({
   defaultChangefreq,
   defaultPriority,
   locales,
+  matchers,
   normalizedRoutes,
+  origin,
   paramValues,
+  routeLocales,
 }: Pick<
   PreparePathsOptions,
-  'defaultChangefreq' | 'defaultPriority' | 'locales' | 'normalizedRoutes' | 'paramValues'
->): PathObj[] {
+  | 'defaultChangefreq'
+  | 'defaultPriority'
+  | 'locales'
+  | 'matchers'
+  | 'normalizedRoutes'
+  | 'origin'
+  | 'routeLocales'
+> & {
+  paramValues: ResolvedParamValues;
+}): PathObj[] {
   try {
     return generatePathsFromNormalizedRoutes({
       defaultChangefreq,
       defaultPriority,
       locales,
+      matchers,
       normalizedRoutes,
+      origin,
       paramValues,
+      routeLocales,
     }).map(stripUndefinedPathMetadata);
   } catch (error) {
     if (error instanceof SitemapRouteParamError) {
@@ -209,7 +696,10 @@ function formatRouteParamErrorMessage(error: SitemapRouteParamError): string {
   return `super-sitemap: ${error.message}`;
 }
 
-function validateOrigin(origin: unknown): asserts origin is string {
+/**
+ * Validates the origin config from untyped JavaScript config.
+ */
+export function validateOrigin(origin: unknown): asserts origin is string {
   if (typeof origin !== 'string' || !origin.trim()) throw new Error(ORIGIN_ERROR);
 
   let url: URL;
@@ -282,6 +772,65 @@ function validateSort(sort: unknown): asserts sort is PreparePathsOptions['sort'
   }
 }
 
+/**
+ * Validates sitemap output type from untyped JavaScript config.
+ */
+function validateSitemapType(
+  sitemapType: unknown
+): asserts sitemapType is NonNullable<SitemapConfig['sitemapType']> {
+  if (sitemapType !== 'standard' && sitemapType !== 'news') {
+    throw new Error('super-sitemap: `sitemapType` must be "standard" or "news".');
+  }
+}
+
+/**
+ * Validates response compression from untyped JavaScript config.
+ */
+function validateCompression(
+  compression: unknown
+): asserts compression is SitemapConfig['compression'] {
+  if (compression !== undefined && compression !== 'gzip') {
+    throw new Error('super-sitemap: `compression` must be "gzip" or undefined.');
+  }
+}
+
+/**
+ * Validates the sitemap output format from untyped JavaScript config. Google
+ * News sitemaps require XML, so other formats only apply to standard sitemaps.
+ */
+function validateFormat(
+  format: unknown,
+  sitemapType: NonNullable<SitemapConfig['sitemapType']>
+): asserts format is NonNullable<SitemapConfig['format']> {
+  if (format !== 'xml' && format !== 'txt' && format !== 'json') {
+    throw new Error('super-sitemap: `format` must be "xml", "txt", or "json".');
+  }
+
+  if (format !== 'xml' && sitemapType === 'news') {
+    throw new Error(
+      `super-sitemap: \`format: "${format}"\` cannot be used with \`sitemapType: "news"\`.`
+    );
+  }
+}
+
+/**
+ * Validates the sitemap index lastmod flag from untyped JavaScript config.
+ */
+function validateIndexLastmod(indexLastmod: unknown): asserts indexLastmod is boolean {
+  if (typeof indexLastmod !== 'boolean') {
+    throw new Error('super-sitemap: `indexLastmod` must be a boolean.');
+  }
+}
+
+/**
+ * Validates the streaming response flag from untyped JavaScript config.
+ */
+function validateStream(stream: unknown): asserts stream is boolean {
+  if (typeof stream !== 'boolean') {
+    throw new Error('super-sitemap: `stream` must be a boolean.');
+  }
+}
+
 function validateNoLegacyLangConfig(options: object): void {
   if ('lang' in options) {
     throw new Error('super-sitemap: `lang` was renamed to `locales` in v2.');
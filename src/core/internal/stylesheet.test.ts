@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+
+import { stylesheetResponse, validateStylesheet } from './stylesheet.js';
+import { hasValidXmlStructure } from './xml.js';
+
+describe('core sitemap stylesheet', () => {
+  it('serves the default XSL stylesheet with merged headers', async () => {
+    const res = stylesheetResponse({ headers: { 'Cache-Control': 'max-age=60' } });
+    const xsl = await res.text();
+
+    expect(res.headers.get('cache-control')).toBe('max-age=60');
+    expect(res.headers.get('content-type')).toBe('text/xsl; charset=utf-8');
+    expect(xsl).toContain('<xsl:when test="sitemap:sitemapindex">');
+    expect(xsl).toContain('<xsl:for-each select="sitemap:urlset/sitemap:url">');
+    expect(xsl).toContain('<xsl:for-each select="xhtml:link">');
+    expect(hasValidXmlStructure(xsl)).toBe(true);
+  });
+
+  it('accepts root-relative paths and absolute URLs', () => {
+    expect(() => validateStylesheet(undefined)).not.toThrow();
+    expect(() => validateStylesheet('/sitemap.xsl')).not.toThrow();
+    expect(() => validateStylesheet('https://example.com/sitemap.xsl')).not.toThrow();
+
+    for (const stylesheet of ['sitemap.xsl', '//cdn.example.com/sitemap.xsl', 1]) {
+      expect(() => validateStylesheet(stylesheet)).toThrow(
+        'super-sitemap: `stylesheet` must be a root-relative path or absolute URL, e.g. "/sitemap.xsl".'
+      );
+    }
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Default XSL stylesheet that renders sitemaps and sitemap indexes as HTML
+ * tables. Column headers sort their table when clicked.
+ */
+const DEFAULT_STYLESHEET_XSL = `<?xml version="1.0" encoding="UTF-8"?>
+<xsl:stylesheet
+  version="1.0"
+  xmlns:xsl="http://www.w3.org/1999/XSL/Transform"
+  xmlns:sitemap="http://www.sitemaps.org/schemas/sitemap/0.9"
+  xmlns:xhtml="http://www.w3.org/1999/xhtml"
+  exclude-result-prefixes="sitemap xhtml"
+>
+  <xsl:output method="html" encoding="UTF-8" indent="yes" doctype-system="about:legacy-compat" />
+
+  <xsl:template match="/">
+    <html lang="en">
+      <head>
+        <meta charset="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="robots" content="noindex" />
+        <title>Sitemap</title>
+        <style>
+          body { color: #1f2328; font: 14px/1.5 system-ui, sans-serif; margin: 2rem; }
+          table { border-collapse: collapse; width: 100%; }
+          th, td { border-bottom: 1px solid #d0d7de; padding: 0.5rem; text-align: left; vertical-align: top; }
+          th { cursor: pointer; user-select: none; white-space: nowrap; }
+          th[data-sort="asc"]::after { content: " \\25B2"; }
+          th[data-sort="desc"]::after { content: " \\25BC"; }
+          a { color: #0969da; word-break: break-all; }
+        </style>
+      </head>
+      <body>
+        <xsl:choose>
+          <xsl:when test="sitemap:sitemapindex">
+            <h1>Sitemap index</h1>
+            <p><xsl:value-of select="count(sitemap:sitemapindex/sitemap:sitemap)" /> sitemaps</p>
+            <table>
+              <thead>
+                <tr><th>Sitemap</th><th>Last modified</th></tr>
+              </thead>
+              <tbody>
+                <xsl:for-each select="sitemap:sitemapindex/sitemap:sitemap">
+                  <tr>
+                    <td><a href="{sitemap:loc}"><xsl:value-of select="sitemap:loc" /></a></td>
+                    <td><xsl:value-of select="sitemap:lastmod" /></td>
+                  </tr>
+                </xsl:for-each>
+              </tbody>
+            </table>
+          </xsl:when>
+          <xsl:otherwise>
+            <h1>Sitemap</h1>
+            <p><xsl:value-of select="count(sitemap:urlset/sitemap:url)" /> URLs</p>
+            <table>
+              <thead>
+                <tr><th>URL</th><th>Last modified</th><th>Alternates</th></tr>
+              </thead>
+              <tbody>
+                <xsl:for-each select="sitemap:urlset/sitemap:url">
+                  <tr>
+                    <td><a href="{sitemap:loc}"><xsl:value-of select="sitemap:loc" /></a></td>
+                    <td><xsl:value-of select="sitemap:lastmod" /></td>
+                    <td>
+                      <xsl:for-each select="xhtml:link">
+                        <a href="{@href}" title="{@href}"><xsl:value-of select="@hreflang" /></a>
+                        <xsl:if test="position() != last()"><xsl:text> </xsl:text></xsl:if>
+                      </xsl:for-each>
+                    </td>
+                  </tr>
+                </xsl:for-each>
+              </tbody>
+            </table>
+          </xsl:otherwise>
+        </xsl:choose>
+        <script>
+          document.querySelectorAll('th').forEach((th) => {
+            th.addEventListener('click', () => {
+              const column = th.cellIndex;
+              const tbody = th.closest('table').tBodies[0];
+              const direction = th.dataset.sort === 'asc' ? -1 : 1;
+              th.parentElement.querySelectorAll('th').forEach((other) => delete other.dataset.sort);
+              th.dataset.sort = direction === 1 ? 'asc' : 'desc';
+              [...tbody.rows]
+                .sort((a, b) =>
+                  direction * a.cells[column].textContent.localeCompare(b.cells[column].textContent, undefined, { numeric: true })
+                )
+                .forEach((row) => tbody.append(row));
+            });
+          });
+        </script>
+      </body>
+    </html>
+  </xsl:template>
+</xsl:stylesheet>
+`;
+
+/**
+ * Generates a `Response` containing the default sitemap XSL stylesheet, for a
+ * route such as `/sitemap.xsl` referenced by the `stylesheet` config.
+ *
+ * @remarks
+ * Browsers only apply XSL stylesheets served from the sitemap's own origin.
+ * Crawlers ignore the processing instruction.
+ *
+ * @param options - Optional custom headers, merged case-insensitively.
+ */
+export function stylesheetResponse({
+  headers = {},
+}: { headers?: Record<string, string> } = {}): Response {
+  return new Response(DEFAULT_STYLESHEET_XSL, {
+    headers: {
+      'cache-control': 'max-age=0, s-maxage=3600',
+      'content-type': 'text/xsl; charset=utf-8',
+      ...Object.fromEntries(
+        Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value])
+      ),
+    },
+  });
+}
+
+/**
+ * Validates the stylesheet location from untyped JavaScript config.
+ */
+export function validateStylesheet(stylesheet: unknown): asserts stylesheet is string | undefined {
+  if (stylesheet === undefined) return;
+
+  if (
+    typeof stylesheet !== 'string' ||
+    !(stylesheet.startsWith('/') ? !stylesheet.startsWith('//') : /^https?:\/\//.test(stylesheet))
+  ) {
+    throw new Error(
+      'super-sitemap: `stylesheet` must be a root-relative path or absolute URL, e.g. "/sitemap.xsl".'
+    );
+  }
+}
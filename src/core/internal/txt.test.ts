@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderSitemapTxt } from './txt.js';
+
+describe('core text sitemap helpers', () => {
+  it('renders one absolute URL per line and omits metadata', () => {
+    expect(
+      renderSitemapTxt('https://example.com', [
+        { path: '/' },
+        {
+          alternates: [{ hreflang: 'de', path: '/de/about' }],
+          lastmod: '2026-01-01',
+          path: '/about',
+          priority: 0.5,
+        },
+      ])
+    ).toBe('https://example.com/\nhttps://example.com/about\n');
+  });
+
+  it('renders an empty body without paths', () => {
+    expect(renderSitemapTxt('https://example.com', [])).toBe('');
+  });
+});
@@ -0,0 +1,24 @@
+import type { PathObj } from './types.js';
+
+/**
+ * Generates a plain-text sitemap body: one absolute URL per line, UTF-8.
+ *
+ * @remarks
+ * - The text format has no metadata, so `lastmod`, `changefreq`, `priority`,
+ *   alternates, and extension data are omitted. Localized variants still
+ *   appear as their own paths.
+ *
+ * @param origin - The origin URL. E.g. `https://example.com`. No trailing slash.
+ * @param pathObjs - Array of path objects to include in the sitemap.
+ * @returns The generated text sitemap.
+ */
+export function renderSitemapTxt(origin: string, pathObjs: PathObj[]): string {
+  return pathObjs.map((pathObj) => renderTxtLine(origin, pathObj)).join('');
+}
+
+/**
+ * Renders one line of a plain-text sitemap, including its trailing newline.
+ */
+export function renderTxtLine(origin: string, { path }: PathObj): string {
+  return `${origin}${path}\n`;
+}
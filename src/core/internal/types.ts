@@ -2,23 +2,179 @@ export type Changefreq = 'always' | 'daily' | 'hourly' | 'monthly' | 'never' | '
 
 export type ParamValue = {
   values: string[];
+  /**
+   * Optional. Per-locale overrides of `values` for localized routes with
+   * translated slugs, e.g. `{ es: ['hola'] }` for `/es/blog/hola`. Locales
+   * without an override use `values`. All variants share one alternate set.
+   */
+  localeValues?: Record<string, string[]>;
+  /**
+   * Optional. Locales this entry exists in, for partially translated content.
+   * Other locales get no path and are left out of its alternates. Defaults to
+   * the route's `routeLocales`, or every configured locale.
+   */
+  locales?: string[];
   lastmod?: string;
   priority?: Priority;
   changefreq?: Changefreq;
+  images?: SitemapImage[];
+  videos?: SitemapVideo[];
+  news?: SitemapNews;
+};
+
+export type ParamValueEntries = ParamValue[] | never | string[] | string[][];
+
+/**
+ * Request context passed to `paramValues` resolver functions.
+ */
+export type ParamValuesContext = {
+  /** With `groups`, the group of the requested page, e.g. `blog` for `blog-2`. */
+  group?: string;
+  maxPerPage: number;
+  page?: string;
+  /** The route key the resolver provides values for, e.g. `/blog/[slug]`. */
+  route: string;
 };
 
-export type ParamValues = Record<string, ParamValue[] | never | string[] | string[][]>;
+/**
+ * Loads one route's param values on demand, e.g. from a database. Resolvers run
+ * concurrently, only when a sitemap is generated. A grouped sitemap page runs
+ * only the resolvers of routes that can have paths in its group; otherwise
+ * every resolver runs, because page boundaries depend on all paths.
+ */
+export type ParamValuesResolver = (
+  context: ParamValuesContext
+) => ParamValueEntries | Promise<ParamValueEntries>;
+
+/**
+ * Route keys of the app mapped to their param tuples, e.g.
+ * `'/blog/[slug]': [slug: string]`. Empty until the file written by
+ * `super-sitemap typegen` augments it, which makes `paramValues` accept only
+ * known route keys with the right number of values per entry.
+ */
+export interface SitemapRoutes {}
+
+/**
+ * `paramValues` entries for a route whose params are `Params`.
+ */
+type TypedParamValueEntries<Params> =
+  | (Params extends [string] ? string[] : never)
+  | Params[]
+  | (Omit<ParamValue, 'values'> & { values: Params })[];
+
+type TypedParamValues = {
+  [Route in keyof SitemapRoutes as SitemapRoutes[Route] extends [] ? never : Route]?:
+    | TypedParamValueEntries<SitemapRoutes[Route]>
+    | ((
+        context: ParamValuesContext
+      ) =>
+        | TypedParamValueEntries<SitemapRoutes[Route]>
+        | Promise<TypedParamValueEntries<SitemapRoutes[Route]>>);
+};
+
+export type ParamValues = keyof SitemapRoutes extends never
+  ? Record<string, ParamValueEntries | ParamValuesResolver>
+  : TypedParamValues;
+
+/**
+ * `paramValues` after resolver functions have been awaited.
+ */
+export type ResolvedParamValues = Record<string, ParamValueEntries>;
+
+/**
+ * Param matcher functions by name, e.g. `{ integer: (param) => /^\d+$/.test(param) }`
+ * for routes such as `/blog/[page=integer]`.
+ */
+export type ParamMatchers = Record<string, (param: string) => boolean>;
 
 export type Priority = 0.0 | 0.1 | 0.2 | 0.3 | 0.4 | 0.5 | 0.6 | 0.7 | 0.8 | 0.9 | 1.0;
 
 export type LocalesConfig = {
   default: string;
   alternates: string[];
+  /**
+   * Optional. Adds an `x-default` hreflang alternate to every localized URL,
+   * for visitors whose language matches no locale. `true` uses the default
+   * locale's path, a locale from `default` or `alternates` uses that locale's
+   * path, and a root-relative path, e.g. `/choose-language`, is used as-is.
+   */
+  xDefault?: boolean | string;
+  /**
+   * Optional. Serves each locale from its own origin instead of a path prefix,
+   * e.g. `{ en: 'https://example.com', de: 'https://example.de' }`. Every
+   * locale needs an origin and routes must not contain a locale param. Each
+   * host's sitemap, selected by `origin`, lists only its locale's URLs, with
+   * alternates on the other hosts.
+   */
+  origins?: Record<string, string>;
+  /**
+   * Optional. `hreflang` values for locales whose path token is not the
+   * intended BCP 47 tag, e.g. `{ uk: 'en-GB', us: ['en-US', 'en'] }` for `/uk/`
+   * and `/us/` paths. A locale with several values gets one alternate per
+   * value. Unmapped locales use the locale itself. Each value may belong to
+   * only one locale.
+   */
+  hreflang?: Record<string, string | string[]>;
+};
+
+/**
+ * One image entry rendered as `<image:image>` within a sitemap `<url>`.
+ *
+ * `loc` may be an absolute URL, e.g. an image on a CDN, or a root-relative path
+ * that is resolved against the sitemap `origin`.
+ */
+export type SitemapImage = {
+  loc: string;
+  caption?: string;
+  title?: string;
+};
+
+/**
+ * One video entry rendered as `<video:video>` within a sitemap `<url>`.
+ *
+ * Location fields may be absolute URLs or root-relative paths resolved against
+ * the sitemap `origin`. At least one of `contentLoc` or `playerLoc` is required.
+ */
+export type SitemapVideo = {
+  thumbnailLoc: string;
+  title: string;
+  description: string;
+  contentLoc?: string;
+  playerLoc?: string;
+  duration?: number; // seconds, 1–28800
+  publicationDate?: string; // ISO 8601 datetime
+  familyFriendly?: boolean;
+};
+
+/**
+ * News article metadata rendered as `<news:news>` in a Google News sitemap.
+ *
+ * Only paths with `news` published within the last 48 hours, and not dated in
+ * the future, are included when `sitemapType: 'news'` is set.
+ */
+export type SitemapNews = {
+  publicationName: string;
+  language: string; // ISO 639 code, e.g. "en", "zh-cn"
+  title: string;
+  publicationDate: string; // ISO 8601 datetime
+};
+
+/**
+ * A named child sitemap. `routes` patterns match route keys as written in
+ * `paramValues`, e.g. `/blog/[slug]`; `paths` patterns match final paths, which
+ * also covers `additionalPaths` and `processPaths` output.
+ */
+export type SitemapGroup = {
+  name: string;
+  routes?: RegExp[];
+  paths?: RegExp[];
 };
 
 export type Alternate = {
   hreflang: string;
   path: string;
+  /** Origin of an alternate on another host. Defaults to the sitemap `origin`. */
+  origin?: string;
 };
 
 export type PathObj = {
@@ -27,6 +183,58 @@ export type PathObj = {
   changefreq?: Changefreq;
   priority?: Priority;
   alternates?: Alternate[];
+  images?: SitemapImage[];
+  videos?: SitemapVideo[];
+  news?: SitemapNews;
+};
+
+/**
+ * One URL of a JSON sitemap page: the final path object with absolute URLs.
+ */
+export type SitemapJsonUrl = Pick<PathObj, 'changefreq' | 'lastmod' | 'priority'> & {
+  loc: string;
+  alternates?: Array<{ hreflang: string; loc: string }>;
+};
+
+/**
+ * Body of a JSON sitemap response: one page of URLs, or an index of pages when
+ * paths exceed one page.
+ */
+export type SitemapJson =
+  | {
+      kind: 'sitemapindex';
+      sitemaps: Array<{ loc: string; lastmod?: string }>;
+    }
+  | {
+      kind: 'urlset';
+      urls: SitemapJsonUrl[];
+    };
+
+/**
+ * One robots.txt group: the crawlers it applies to and their rules. Paths start
+ * with `/` and may use `*` wildcards and a trailing `$`, e.g. `/*.pdf$`.
+ */
+export type RobotsRule = {
+  userAgent: string | string[];
+  allow?: string[];
+  disallow?: string[];
+  /** Seconds between requests. Ignored by Google; honored by Bing and others. */
+  crawlDelay?: number;
+};
+
+export type RobotsConfig = {
+  /** The origin URL, e.g. `https://example.com`. No trailing slash. */
+  origin: string;
+  /** Defaults to allowing all crawlers everywhere: `[{ userAgent: '*', allow: ['/'] }]`. */
+  rules?: RobotsRule[];
+  /**
+   * Sitemap locations, as root-relative paths or absolute URLs. Defaults to
+   * `['/sitemap.xml']`, which is also the sitemap index location when a
+   * sitemap is paginated.
+   */
+  sitemaps?: string[];
+  /** Custom headers, merged case-insensitively with the defaults. */
+  headers?: Record<string, string>;
 };
 
 export type RouteSegment =
@@ -66,11 +274,25 @@ export type RouteSource = {
   filePath?: string;
 };
 
+/**
+ * Route-level sitemap metadata exported by a page module, e.g.
+ * `export const sitemap = { priority: 0.9 }` in a SvelteKit `+page.ts`.
+ */
+export type RouteSitemap = {
+  /** Optional. The route's changefreq, unless a `ParamValue` sets its own. */
+  changefreq?: Changefreq;
+  /** Optional. Set to `true` to leave every path of the route out of the sitemap. */
+  exclude?: boolean;
+  /** Optional. The route's priority, unless a `ParamValue` sets its own. */
+  priority?: Priority;
+};
+
 export type NormalizedRoute = {
   id: string;
   segments: RouteSegment[];
   params?: RouteParam[];
   locale?: RouteLocaleSlot;
+  sitemap?: RouteSitemap;
   source: RouteSource;
 };
 
@@ -83,11 +305,47 @@ export type SitemapConfig = {
   origin: string;
   page?: string;
 
+  /**
+   * Optional. Restricts localized routes, keyed as in `paramValues`, to the
+   * locales they exist in, e.g. `{ '/[[locale]]/careers': ['en', 'de'] }`.
+   * Other locales get no path and are left out of alternates. A `ParamValue`'s
+   * own `locales` take precedence.
+   */
+  routeLocales?: Record<string, string[]>;
+
+  /**
+   * Optional. Splits the sitemap into named child sitemaps, e.g.
+   * `/sitemap-blog.xml`, listed in a sitemap index. Each path joins the first
+   * group whose `paths` patterns match the path or whose `routes` patterns
+   * match the route key that produced it, including any locale param. A group
+   * with neither collects all remaining paths. Groups larger than one page
+   * continue at `blog-2`, etc.
+   */
+  groups?: SitemapGroup[];
+
+  /**
+   * Optional. Defaults to `true`, emitting each child sitemap's most recent
+   * `lastmod` in the sitemap index so crawlers can tell which pages changed.
+   * Set to `false` to omit `<lastmod>` from sitemap index entries.
+   */
+  indexLastmod?: boolean;
+
+  /**
+   * Optional. Location of each child sitemap listed in a sitemap index, as a
+   * root-relative path or absolute URL containing `[page]`, or a function of
+   * the 1-based page number (and group name, with `groups`). Defaults to
+   * `/sitemap[page].xml`, `/sitemap-[page].xml` with `groups`, plus `.gz` with
+   * gzip compression. `page` also accepts a location produced by this option,
+   * e.g. `/sitemaps/2.xml`.
+   */
+  pageLoc?: string | ((page: number, group?: string) => string);
+
   /**
    * Parameter values for dynamic routes, where the values can be:
    * - `string[]`
    * - `string[][]`
    * - `ParamValue[]`
+   * - a function returning, or resolving to, one of the above
    */
   paramValues?: ParamValues;
 
@@ -107,10 +365,51 @@ export type SitemapConfig = {
 
   processPaths?: (paths: PathObj[]) => PathObj[];
 
+  /**
+   * Optional. Set to `gzip` to have `response()` gzip-compress sitemap bodies
+   * and point sitemap index entries at `/sitemap1.xml.gz`, `/sitemap2.xml.gz`,
+   * etc. Serve the sitemap from matching `.xml.gz` routes. Responses are
+   * the `.gz` files themselves, sent as `application/gzip`.
+   */
+  compression?: 'gzip';
+
+  /**
+   * Optional. Defaults to `xml`. Set to `txt` to render sitemap pages in the
+   * protocol's text format: one absolute URL per line, without metadata or
+   * alternates. Sitemap indexes stay XML and point at `/sitemap1.txt`,
+   * `/sitemap2.txt`, etc. Set to `json` to render `SitemapJson` pages and
+   * indexes, with child pages at `/sitemap1.json`, etc., for internal tooling.
+   * Only `xml` is supported with `sitemapType: 'news'`.
+   */
+  format?: 'json' | 'txt' | 'xml';
+
+  /**
+   * Optional. Defaults to `standard`. Set to `news` to render a Google News
+   * sitemap containing only paths with `news` metadata published within the
+   * last 48 hours, paginated at no more than 1,000 URLs per page.
+   */
+  sitemapType?: 'news' | 'standard';
+
   /**
    * Optional. Defaults to `false`, preserving generated route order, dynamic
    * `paramValues` order, and `additionalPaths` order. Set to `alpha` to sort all
    * paths alphabetically.
    */
   sort?: 'alpha' | false;
+
+  /**
+   * Optional. Defaults to `false`. Set to `true` to have `response()` stream
+   * sitemap pages as they render instead of building one string, keeping
+   * memory flat for large pages. News sitemaps and sitemap indexes are small
+   * and are always sent as one string.
+   */
+  stream?: boolean;
+
+  /**
+   * Optional. Root-relative path or absolute URL of an XSL stylesheet, added to
+   * sitemaps and sitemap indexes as an `<?xml-stylesheet?>` instruction so
+   * browsers render them as readable tables. Serve `stylesheetResponse()` from
+   * that route for the default stylesheet. Crawlers ignore it.
+   */
+  stylesheet?: string;
 };
@@ -3,8 +3,10 @@ import { describe, expect, it } from 'vitest';
 import {
   hasValidXmlStructure,
   parseSitemapXml,
+  renderNewsSitemapXml,
   renderSitemapIndexXml,
   renderSitemapXml,
+  renderSitemapXmlStream,
 } from './xml.js';
 
 describe('core XML helpers', () => {
@@ -42,6 +44,170 @@ describe('core XML helpers', () => {
 </urlset>`);
   });
 
+  it('renders image entries and declares the image namespace only when used', () => {
+    const xml = renderSitemapXml('https://example.com', [
+      {
+        images: [
+          { caption: 'Red shoe', loc: '/images/red-shoe.jpg', title: 'Red' },
+          { loc: 'https://cdn.example.com/blue-shoe.jpg' },
+        ],
+        path: '/products/shoes',
+      },
+    ]);
+
+    expect(xml).toBe(`<?xml version="1.0" encoding="UTF-8" ?>
+<urlset
+  xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+  xmlns:xhtml="http://www.w3.org/1999/xhtml"
+  xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"
+>
+  <url>
+    <loc>https://example.com/products/shoes</loc>
+    <image:image>
+      <image:loc>https://example.com/images/red-shoe.jpg</image:loc>
+      <image:caption>Red shoe</image:caption>
+      <image:title>Red</image:title>
+    </image:image>
+    <image:image>
+      <image:loc>https://cdn.example.com/blue-shoe.jpg</image:loc>
+    </image:image>
+  </url>
+</urlset>`);
+    expect(hasValidXmlStructure(xml)).toBe(true);
+    expect(renderSitemapXml('https://example.com', [{ images: [], path: '/' }])).not.toContain(
+      'xmlns:image'
+    );
+  });
+
+  it('escapes image text values', () => {
+    const xml = renderSitemapXml('https://example.com', [
+      {
+        images: [{ caption: 'Salt & <pepper>', loc: '/images/a.jpg?w=1&h=2', title: 'A & B' }],
+        path: '/',
+      },
+    ]);
+
+    expect(xml).toContain('<image:loc>https://example.com/images/a.jpg?w=1&amp;h=2</image:loc>');
+    expect(xml).toContain('<image:caption>Salt &amp; &lt;pepper&gt;</image:caption>');
+    expect(xml).toContain('<image:title>A &amp; B</image:title>');
+  });
+
+  it('renders video entries with optional metadata and the video namespace', () => {
+    const xml = renderSitemapXml('https://example.com', [
+      {
+        path: '/courses/intro',
+        videos: [
+          {
+            contentLoc: 'https://cdn.example.com/intro.mp4',
+            description: 'Learn the basics & more.',
+            duration: 600,
+            familyFriendly: false,
+            playerLoc: '/player?video=intro',
+            publicationDate: '2026-01-02T10:00:00Z',
+            thumbnailLoc: '/thumbs/intro.jpg',
+            title: 'Intro',
+          },
+          {
+            description: 'Minimal video.',
+            playerLoc: '/player?video=minimal',
+            thumbnailLoc: '/thumbs/minimal.jpg',
+            title: 'Minimal',
+          },
+        ],
+      },
+    ]);
+
+    expect(xml).toBe(`<?xml version="1.0" encoding="UTF-8" ?>
+<urlset
+  xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+  xmlns:xhtml="http://www.w3.org/1999/xhtml"
+  xmlns:video="http://www.google.com/schemas/sitemap-video/1.1"
+>
+  <url>
+    <loc>https://example.com/courses/intro</loc>
+    <video:video>
+      <video:thumbnail_loc>https://example.com/thumbs/intro.jpg</video:thumbnail_loc>
+      <video:title>Intro</video:title>
+      <video:description>Learn the basics &amp; more.</video:description>
+      <video:content_loc>https://cdn.example.com/intro.mp4</video:content_loc>
+      <video:player_loc>https://example.com/player?video=intro</video:player_loc>
+      <video:duration>600</video:duration>
+      <video:publication_date>2026-01-02T10:00:00Z</video:publication_date>
+      <video:family_friendly>no</video:family_friendly>
+    </video:video>
+    <video:video>
+      <video:thumbnail_loc>https://example.com/thumbs/minimal.jpg</video:thumbnail_loc>
+      <video:title>Minimal</video:title>
+      <video:description>Minimal video.</video:description>
+      <video:player_loc>https://example.com/player?video=minimal</video:player_loc>
+    </video:video>
+  </url>
+</urlset>`);
+    expect(hasValidXmlStructure(xml)).toBe(true);
+  });
+
+  it('streams the same sitemap XML in chunks of URL elements', async () => {
+    const pathObjs = Array.from({ length: 250 }, (_, index) => ({
+      alternates: [
+        { hreflang: 'en', path: `/posts/${index}` },
+        { hreflang: 'de', path: `/de/posts/${index}` },
+      ],
+      images: index === 249 ? [{ loc: '/images/last.jpg' }] : undefined,
+      path: `/posts/${index}`,
+    }));
+    const reader = renderSitemapXmlStream('https://example.com', pathObjs).getReader();
+    const decoder = new TextDecoder();
+    const chunks: string[] = [];
+
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      chunks.push(decoder.decode(result.value, { stream: true }));
+    }
+
+    // Opening tag, three chunks of at most 100 URLs, and the closing tag.
+    expect(chunks).toHaveLength(5);
+    expect(chunks.join('')).toBe(renderSitemapXml('https://example.com', pathObjs));
+  });
+
+  it('streams an empty urlset', async () => {
+    const xml = await new Response(renderSitemapXmlStream('https://example.com', [])).text();
+
+    expect(xml).toBe(renderSitemapXml('https://example.com', []));
+  });
+
+  it('renders Google News sitemap XML with escaped article metadata', () => {
+    const xml = renderNewsSitemapXml('https://example.com', [
+      {
+        changefreq: 'hourly',
+        news: {
+          language: 'en',
+          publicationDate: '2026-01-02T10:00:00Z',
+          publicationName: 'The Example Times',
+          title: 'Markets & <Money>',
+        },
+        path: '/news/markets',
+      },
+    ]);
+
+    expect(xml).toBe(`<?xml version="1.0" encoding="UTF-8" ?>
+<urlset
+  xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+  xmlns:news="http://www.google.com/schemas/sitemap-news/0.9"
+>
+  <url>
+    <loc>https://example.com/news/markets</loc>
+    <news:news>
+      <news:publication>
+        <news:name>The Example Times</news:name>
+        <news:language>en</news:language>
+      </news:publication>
+      <news:publication_date>2026-01-02T10:00:00Z</news:publication_date>
+      <news:title>Markets &amp; &lt;Money&gt;</news:title>
+    </news:news>
+  </url>
+</urlset>`);
+    expect(hasValidXmlStructure(xml)).toBe(true);
+  });
+
   it('renders zero priority because it is valid sitemap metadata', () => {
     const xml = renderSitemapXml('https://example.com', [
       { path: '/lowest-priority', priority: 0.0 },
@@ -87,6 +253,67 @@ describe('core XML helpers', () => {
 </sitemapindex>`);
   });
 
+  it('renders custom child sitemap locations, resolving root-relative paths', () => {
+    const xml = renderSitemapIndexXml('https://example.com', 2, {
+      getPageLoc: (page) =>
+        page === 1 ? '/sitemaps/1.xml.gz' : `https://cdn.example.com/sitemap-${page}.xml`,
+    });
+
+    expect(xml).toContain('<loc>https://example.com/sitemaps/1.xml.gz</loc>');
+    expect(xml).toContain('<loc>https://cdn.example.com/sitemap-2.xml</loc>');
+  });
+
+  it('renders lastmod in sitemap index entries that have one', () => {
+    expect(renderSitemapIndexXml('https://example.com', 2, { lastmods: [undefined, '2026-01-02'] }))
+      .toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap>
+    <loc>https://example.com/sitemap1.xml</loc>
+  </sitemap>
+  <sitemap>
+    <loc>https://example.com/sitemap2.xml</loc>
+    <lastmod>2026-01-02</lastmod>
+  </sitemap>
+</sitemapindex>`);
+  });
+
+  it('renders alternates on other origins with absolute hrefs', () => {
+    expect(
+      renderSitemapXml('https://example.com', [
+        {
+          alternates: [
+            { hreflang: 'en', path: '/about' },
+            { hreflang: 'de', origin: 'https://example.de', path: '/ueber-uns' },
+          ],
+          path: '/about',
+        },
+      ])
+    ).toContain(`    <xhtml:link rel="alternate" hreflang="en" href="https://example.com/about" />
+    <xhtml:link rel="alternate" hreflang="de" href="https://example.de/ueber-uns" />`);
+  });
+
+  it('renders an xml-stylesheet instruction after the XML declaration', () => {
+    const sitemapXml = renderSitemapXml('https://example.com', [{ path: '/' }], {
+      stylesheet: '/sitemap.xsl?v="1"',
+    });
+    const indexXml = renderSitemapIndexXml('https://example.com', 1, {
+      stylesheet: '/sitemap.xsl',
+    });
+
+    expect(sitemapXml).toContain(`<?xml version="1.0" encoding="UTF-8" ?>
+<?xml-stylesheet type="text/xsl" href="/sitemap.xsl?v=&quot;1&quot;"?>
+<urlset`);
+    expect(indexXml).toContain(`<?xml version="1.0" encoding="UTF-8"?>
+<?xml-stylesheet type="text/xsl" href="/sitemap.xsl"?>
+<sitemapindex`);
+    expect(parseSitemapXml(sitemapXml)).toEqual({
+      kind: 'sitemap',
+      locs: ['https://example.com/'],
+    });
+    expect(parseSitemapXml(indexXml).kind).toBe('sitemapindex');
+    expect(hasValidXmlStructure(sitemapXml)).toBe(true);
+  });
+
   it('escapes sitemap index loc text', () => {
     expect(renderSitemapIndexXml('https://example.com/root?section=<maps>&draft=yes', 1)).toContain(
       '<loc>https://example.com/root?section=&lt;maps&gt;&amp;draft=yes/sitemap1.xml</loc>'
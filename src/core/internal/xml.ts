@@ -1,4 +1,4 @@
-import type { PathObj } from './types.js';
+import type { PathObj, SitemapImage, SitemapNews, SitemapVideo } from './types.js';
 
 export type ParsedSitemapXml =
   | {
@@ -10,10 +10,28 @@ export type ParsedSitemapXml =
       locs: string[];
     };
 
-const XML_DECLARATION_REGEX = /^\s*<\?xml[\s\S]*?\?>\s*/;
+const IMAGE_NAMESPACE = 'http://www.google.com/schemas/sitemap-image/1.1';
+const NEWS_NAMESPACE = 'http://www.google.com/schemas/sitemap-news/0.9';
+const URL_ELEMENTS_PER_STREAM_CHUNK = 100;
+const URLSET_CLOSING_TAG = '\n</urlset>';
+const VIDEO_NAMESPACE = 'http://www.google.com/schemas/sitemap-video/1.1';
+const XML_PROLOG_REGEX = /^\s*(?:<\?[\s\S]*?\?>\s*)*/;
 const XML_COMMENT_REGEX = /<!--[\s\S]*?-->/g;
 const XML_TAG_REGEX = /<([^>]+)>/g;
 
+/**
+ * Upper bound, in bytes, for a `<urlset>` document's XML declaration, opening
+ * tag with every extension namespace, and closing tag. Size-aware pagination
+ * reserves it from each page's byte budget.
+ */
+export const MAX_URLSET_ENVELOPE_BYTES = 1_024;
+
+/** Options shared by the XML document renderers. */
+export type RenderXmlOptions = {
+  /** Root-relative path or absolute URL of an XSL stylesheet for browsers. */
+  stylesheet?: string;
+};
+
 /**
  * Generates an XML response body based on the provided paths, using the sitemap protocol
  * structure.
@@ -25,62 +43,280 @@ const XML_TAG_REGEX = /<([^>]+)>/g;
  *                 because "/" is the index page.
  * @param pathObjs - Array of path objects to include in the sitemap. Each path within it should
  *                 start with a '/'; but if not, it will be added.
+ * @param options - Optional `stylesheet` location.
  * @returns The generated XML sitemap.
  */
-export function renderSitemapXml(origin: string, pathObjs: PathObj[]): string {
-  const urlElements = pathObjs
-    .map((pathObj) => {
-      const { alternates, changefreq, lastmod, path, priority } = pathObj;
-      const loc = `${origin}${path}`;
-
-      let url = '\n  <url>\n';
-      url += `    <loc>${escapeXmlText(loc)}</loc>\n`;
-      url += lastmod ? `    <lastmod>${escapeXmlText(lastmod)}</lastmod>\n` : '';
-      url += changefreq ? `    <changefreq>${changefreq}</changefreq>\n` : '';
-      url += priority !== undefined ? `    <priority>${priority}</priority>\n` : '';
-
-      if (alternates) {
-        url += alternates
-          .map(
-            ({ hreflang, path }) =>
-              `    <xhtml:link rel="alternate" hreflang="${escapeXmlAttribute(
-                hreflang
-              )}" href="${escapeXmlAttribute(`${origin}${path}`)}" />\n`
-          )
-          .join('');
+export function renderSitemapXml(
+  origin: string,
+  pathObjs: PathObj[],
+  { stylesheet }: RenderXmlOptions = {}
+): string {
+  const urlElements = pathObjs.map((pathObj) => renderUrlElement(origin, pathObj)).join('');
+
+  return `${renderUrlsetOpeningTag(pathObjs, stylesheet)}${urlElements}${URLSET_CLOSING_TAG}`;
+}
+
+/**
+ * Streams the same XML document as `renderSitemapXml`, encoded as UTF-8.
+ *
+ * @remarks
+ * - URL elements are rendered lazily as the consumer pulls, in chunks of 100,
+ *   so memory stays flat for 50,000-URL pages with many alternates and the
+ *   first bytes are sent before the whole page is rendered.
+ *
+ * @param origin - The origin URL. E.g. `https://example.com`. No trailing slash.
+ * @param pathObjs - Array of path objects to include in the sitemap.
+ * @param options - Optional `stylesheet` location.
+ * @returns A byte stream of the generated XML sitemap.
+ */
+export function renderSitemapXmlStream(
+  origin: string,
+  pathObjs: PathObj[],
+  { stylesheet }: RenderXmlOptions = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = -1;
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index === -1) {
+        controller.enqueue(encoder.encode(renderUrlsetOpeningTag(pathObjs, stylesheet)));
+        index = 0;
+        return;
       }
 
-      url += '  </url>';
+      if (index >= pathObjs.length) {
+        controller.enqueue(encoder.encode(URLSET_CLOSING_TAG));
+        controller.close();
+        return;
+      }
 
-      return url;
-    })
-    .join('');
+      const chunk = pathObjs.slice(index, index + URL_ELEMENTS_PER_STREAM_CHUNK);
+      index += chunk.length;
+      controller.enqueue(
+        encoder.encode(chunk.map((pathObj) => renderUrlElement(origin, pathObj)).join(''))
+      );
+    },
+  });
+}
 
-  return `<?xml version="1.0" encoding="UTF-8" ?>
+/**
+ * Renders the XML declaration and `<urlset>` opening tag, declaring extension
+ * namespaces only when at least one path uses them.
+ */
+function renderUrlsetOpeningTag(pathObjs: PathObj[], stylesheet?: string): string {
+  let extensionNamespaces = '';
+  extensionNamespaces += pathObjs.some(({ images }) => images?.length)
+    ? `\n  xmlns:image="${IMAGE_NAMESPACE}"`
+    : '';
+  extensionNamespaces += pathObjs.some(({ videos }) => videos?.length)
+    ? `\n  xmlns:video="${VIDEO_NAMESPACE}"`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8" ?>${renderStylesheetInstruction(stylesheet)}
 <urlset
   xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
-  xmlns:xhtml="http://www.w3.org/1999/xhtml"
+  xmlns:xhtml="http://www.w3.org/1999/xhtml"${extensionNamespaces}
+>`;
+}
+
+/**
+ * Renders the `<?xml-stylesheet?>` processing instruction that follows the XML
+ * declaration, or an empty string without a stylesheet.
+ */
+export function renderStylesheetInstruction(stylesheet: string | undefined): string {
+  return stylesheet === undefined
+    ? ''
+    : `\n<?xml-stylesheet type="text/xsl" href="${escapeXmlAttribute(stylesheet)}"?>`;
+}
+
+/**
+ * Renders one `<url>` element of a standard sitemap.
+ */
+export function renderUrlElement(origin: string, pathObj: PathObj): string {
+  const { alternates, changefreq, images, lastmod, path, priority, videos } = pathObj;
+  const loc = `${origin}${path}`;
+
+  let url = '\n  <url>\n';
+  url += `    <loc>${escapeXmlText(loc)}</loc>\n`;
+  url += lastmod ? `    <lastmod>${escapeXmlText(lastmod)}</lastmod>\n` : '';
+  url += changefreq ? `    <changefreq>${changefreq}</changefreq>\n` : '';
+  url += priority !== undefined ? `    <priority>${priority}</priority>\n` : '';
+
+  if (alternates) {
+    url += alternates
+      .map(
+        (alternate) =>
+          `    <xhtml:link rel="alternate" hreflang="${escapeXmlAttribute(
+            alternate.hreflang
+          )}" href="${escapeXmlAttribute(`${alternate.origin ?? origin}${alternate.path}`)}" />\n`
+      )
+      .join('');
+  }
+
+  if (images) {
+    url += images.map((image) => renderImageElement(origin, image)).join('');
+  }
+
+  if (videos) {
+    url += videos.map((video) => renderVideoElement(origin, video)).join('');
+  }
+
+  url += '  </url>';
+
+  return url;
+}
+
+/**
+ * Generates a Google News sitemap XML body.
+ *
+ * @remarks
+ * - Only `<loc>` and `<news:news>` are rendered because Google News sitemaps
+ *   describe articles, not crawl hints. Callers select recent articles first.
+ *
+ * @param origin - The origin URL. E.g. `https://example.com`. No trailing slash.
+ * @param pathObjs - Path objects with `news` metadata to include in the sitemap.
+ * @param options - Optional `stylesheet` location.
+ * @returns The generated XML news sitemap.
+ */
+export function renderNewsSitemapXml(
+  origin: string,
+  pathObjs: PathObj[],
+  { stylesheet }: RenderXmlOptions = {}
+): string {
+  const urlElements = pathObjs.map((pathObj) => renderNewsUrlElement(origin, pathObj)).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" ?>${renderStylesheetInstruction(stylesheet)}
+<urlset
+  xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+  xmlns:news="${NEWS_NAMESPACE}"
 >${urlElements}
 </urlset>`;
 }
 
+/**
+ * Renders one `<url>` element of a Google News sitemap.
+ */
+export function renderNewsUrlElement(origin: string, { news, path }: PathObj): string {
+  let url = '\n  <url>\n';
+  url += `    <loc>${escapeXmlText(`${origin}${path}`)}</loc>\n`;
+  url += news ? renderNewsElement(news) : '';
+  url += '  </url>';
+
+  return url;
+}
+
+/**
+ * Renders one `<news:news>` element of the Google News sitemap extension.
+ */
+function renderNewsElement({
+  language,
+  publicationDate,
+  publicationName,
+  title,
+}: SitemapNews): string {
+  let element = '    <news:news>\n';
+  element += '      <news:publication>\n';
+  element += `        <news:name>${escapeXmlText(publicationName)}</news:name>\n`;
+  element += `        <news:language>${escapeXmlText(language)}</news:language>\n`;
+  element += '      </news:publication>\n';
+  element += `      <news:publication_date>${escapeXmlText(publicationDate)}</news:publication_date>\n`;
+  element += `      <news:title>${escapeXmlText(title)}</news:title>\n`;
+  element += '    </news:news>\n';
+
+  return element;
+}
+
+/**
+ * Renders one `<image:image>` element of the Google image sitemap extension.
+ */
+function renderImageElement(origin: string, { caption, loc, title }: SitemapImage): string {
+  let image = '    <image:image>\n';
+  image += `      <image:loc>${escapeXmlText(resolveLoc(origin, loc))}</image:loc>\n`;
+  image += caption ? `      <image:caption>${escapeXmlText(caption)}</image:caption>\n` : '';
+  image += title ? `      <image:title>${escapeXmlText(title)}</image:title>\n` : '';
+  image += '    </image:image>\n';
+
+  return image;
+}
+
+/**
+ * Renders one `<video:video>` element of the Google video sitemap extension.
+ */
+function renderVideoElement(origin: string, video: SitemapVideo): string {
+  const { contentLoc, duration, familyFriendly, playerLoc, publicationDate } = video;
+
+  let element = '    <video:video>\n';
+  element += `      <video:thumbnail_loc>${escapeXmlText(
+    resolveLoc(origin, video.thumbnailLoc)
+  )}</video:thumbnail_loc>\n`;
+  element += `      <video:title>${escapeXmlText(video.title)}</video:title>\n`;
+  element += `      <video:description>${escapeXmlText(video.description)}</video:description>\n`;
+  element += contentLoc
+    ? `      <video:content_loc>${escapeXmlText(resolveLoc(origin, contentLoc))}</video:content_loc>\n`
+    : '';
+  element += playerLoc
+    ? `      <video:player_loc>${escapeXmlText(resolveLoc(origin, playerLoc))}</video:player_loc>\n`
+    : '';
+  element += duration !== undefined ? `      <video:duration>${duration}</video:duration>\n` : '';
+  element += publicationDate
+    ? `      <video:publication_date>${escapeXmlText(publicationDate)}</video:publication_date>\n`
+    : '';
+  element +=
+    familyFriendly !== undefined
+      ? `      <video:family_friendly>${familyFriendly ? 'yes' : 'no'}</video:family_friendly>\n`
+      : '';
+  element += '    </video:video>\n';
+
+  return element;
+}
+
+/**
+ * Resolves a root-relative location against the origin and leaves absolute
+ * URLs, such as CDN-hosted assets, unchanged.
+ */
+function resolveLoc(origin: string, loc: string): string {
+  return loc.startsWith('/') ? `${origin}${loc}` : loc;
+}
+
 /**
  * Generates a sitemap index XML string.
  *
  * @param origin - The origin URL. E.g. `https://example.com`. No trailing slash.
  * @param pages - The number of sitemap pages to include in the index.
+ * @param options - `getPageLoc` returns each child sitemap's root-relative path
+ *                  or absolute URL. Defaults to `/sitemap1.xml`, `/sitemap2.xml`, etc.
+ *                  `lastmods` holds each page's most recent lastmod, by page index.
+ *                  `stylesheet` is an optional XSL stylesheet location.
  * @returns The generated XML sitemap index.
  */
-export function renderSitemapIndexXml(origin: string, pages: number): string {
-  let str = `<?xml version="1.0" encoding="UTF-8"?>
+export function renderSitemapIndexXml(
+  origin: string,
+  pages: number,
+  {
+    getPageLoc = (page) => `/sitemap${page}.xml`,
+    lastmods = [],
+    stylesheet,
+  }: RenderXmlOptions & {
+    getPageLoc?: (page: number) => string;
+    lastmods?: Array<string | undefined>;
+  } = {}
+): string {
+  let str = `<?xml version="1.0" encoding="UTF-8"?>${renderStylesheetInstruction(stylesheet)}
 <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`;
 
   for (let i = 1; i <= pages; i++) {
-    const loc = `${origin}/sitemap${i}.xml`;
+    const loc = resolveLoc(origin, getPageLoc(i));
+    const lastmod = lastmods[i - 1];
 
     str += `
   <sitemap>
-    <loc>${escapeXmlText(loc)}</loc>
+    <loc>${escapeXmlText(loc)}</loc>`;
+    if (lastmod) {
+      str += `
+    <lastmod>${escapeXmlText(lastmod)}</lastmod>`;
+    }
+    str += `
   </sitemap>`;
   }
   str += `
@@ -123,7 +359,7 @@ function escapeXmlAttribute(value: string): string {
  * @returns Parsed root kind and its `<loc>` values.
  */
 export function parseSitemapXml(xml: string): ParsedSitemapXml {
-  const normalizedXml = stripXmlDeclaration(xml).trim();
+  const normalizedXml = stripXmlProlog(xml).trim();
 
   if (/^<urlset\b/.test(normalizedXml)) {
     return {
@@ -157,7 +393,7 @@ export function parseSitemapXml(xml: string): ParsedSitemapXml {
  */
 export function hasValidXmlStructure(xml: string): boolean {
   const stack: string[] = [];
-  const sanitizedXml = stripXmlDeclaration(xml).replaceAll(XML_COMMENT_REGEX, '');
+  const sanitizedXml = stripXmlProlog(xml).replaceAll(XML_COMMENT_REGEX, '');
 
   for (const match of sanitizedXml.matchAll(XML_TAG_REGEX)) {
     const tag = match[1]?.trim();
@@ -191,10 +427,11 @@ export function hasValidXmlStructure(xml: string): boolean {
 }
 
 /**
- * Removes a leading XML declaration when present.
+ * Removes a leading XML declaration and processing instructions, such as
+ * `<?xml-stylesheet?>`, when present.
  */
-function stripXmlDeclaration(xml: string): string {
-  return xml.replace(XML_DECLARATION_REGEX, '');
+function stripXmlProlog(xml: string): string {
+  return xml.replace(XML_PROLOG_REGEX, '');
 }
 
 /**
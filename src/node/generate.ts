@@ -0,0 +1,120 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import { getFiles as getSvelteKitFiles } from '../adapters/sveltekit/internal/sitemap.js';
+import type { SitemapConfig as SvelteKitSitemapConfig } from '../adapters/sveltekit/internal/types.js';
+import { getFiles as getTanStackStartFiles } from '../adapters/tanstack-start/internal/sitemap.js';
+import type { SitemapConfig as TanStackStartSitemapConfig } from '../adapters/tanstack-start/internal/types.js';
+import type { SitemapFile } from '../core/internal/sitemap.js';
+import {
+  discoverSvelteKitPageRouteFilesFromDisk,
+  discoverSvelteKitPageSitemapsFromDisk,
+  discoverSvelteKitParamMatchersFromDisk,
+} from './sveltekit-routes.js';
+
+export type SitemapAdapterName = 'sveltekit' | 'tanstack-start';
+
+/**
+ * Writes every static sitemap file for the config exported by a module: the
+ * root sitemap, and when it is an index, each child sitemap.
+ *
+ * @remarks
+ * The module's default export is the adapter's `SitemapConfig`, or a function
+ * returning it. It is imported by Node, so it must be JavaScript or run under a
+ * TypeScript loader. SvelteKit routes, param matchers, and route-level
+ * `sitemap` exports are read from disk, since `import.meta.glob` is unavailable
+ * outside Vite.
+ *
+ * @returns Paths of the written files.
+ */
+export async function generateSitemapFiles({
+  adapter,
+  configPath,
+  outDir,
+  routesDir,
+}: {
+  adapter: SitemapAdapterName;
+  configPath: string;
+  outDir: string;
+  routesDir?: string;
+}): Promise<string[]> {
+  const config = await loadConfig(configPath);
+  const files = await getAdapterSitemapFiles({ adapter, config, routesDir });
+
+  return files.map(({ body, path: filePath }) => {
+    const outPath = path.join(outDir, filePath);
+    fs.mkdirSync(path.dirname(outPath), { recursive: true });
+    fs.writeFileSync(outPath, body);
+    return outPath;
+  });
+}
+
+/**
+ * Generates every static sitemap file with the given adapter. SvelteKit route
+ * files, param matchers, and route-level `sitemap` exports are discovered on
+ * disk under `cwd` unless the config sets them.
+ */
+export async function getAdapterSitemapFiles({
+  adapter,
+  config,
+  cwd,
+  routesDir,
+}: {
+  adapter: SitemapAdapterName;
+  config: unknown;
+  cwd?: string;
+  routesDir?: string;
+}): Promise<SitemapFile[]> {
+  if (adapter === 'sveltekit') {
+    return getSvelteKitFiles(
+      await withSvelteKitDiskDiscovery(config as SvelteKitSitemapConfig, { cwd, routesDir })
+    );
+  }
+
+  return getTanStackStartFiles(config as TanStackStartSitemapConfig);
+}
+
+/**
+ * Fills in the SvelteKit config the adapter discovers with `import.meta.glob`
+ * inside Vite, reading it from disk instead: `routeFiles`, `matchers`, and
+ * `pageSitemaps`. Values the config already sets are kept. Modules are
+ * imported through Vite with `viteConfigFile`, or the one in `cwd`.
+ */
+export async function withSvelteKitDiskDiscovery<
+  Config extends Pick<SvelteKitSitemapConfig, 'matchers' | 'pageSitemaps' | 'routeFiles'>,
+>(
+  config: Config,
+  {
+    cwd,
+    routesDir,
+    viteConfigFile,
+  }: { cwd?: string; routesDir?: string; viteConfigFile?: string | false }
+): Promise<Config> {
+  return {
+    ...config,
+    matchers:
+      config.matchers ?? (await discoverSvelteKitParamMatchersFromDisk({ cwd, viteConfigFile })),
+    pageSitemaps:
+      config.pageSitemaps ??
+      (await discoverSvelteKitPageSitemapsFromDisk({ cwd, routesDir, viteConfigFile })),
+    routeFiles:
+      config.routeFiles ?? (await discoverSvelteKitPageRouteFilesFromDisk({ cwd, routesDir })),
+  };
+}
+
+/**
+ * Imports a sitemap config module and resolves its default export.
+ */
+async function loadConfig(configPath: string): Promise<unknown> {
+  const module: { default?: unknown } = await import(pathToFileURL(path.resolve(configPath)).href);
+  const config = typeof module.default === 'function' ? await module.default() : module.default;
+
+  if (typeof config !== 'object' || config === null) {
+    throw new Error(
+      `super-sitemap: '${configPath}' must default-export a sitemap config object or a function returning one.`
+    );
+  }
+
+  return config;
+}
@@ -0,0 +1,90 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  createFixtureDir,
+  removeFixtureDir,
+  writeFixtureFiles,
+} from '../test-utils/sveltekit-route-files.js';
+import { runCli } from './run-cli.js';
+
+describe('super-sitemap CLI', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = createFixtureDir('cli');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    writeFixtureFiles(tmpDir, [
+      'routes/+page.svelte',
+      'routes/about/+page.svelte',
+      'routes/blog/[slug]/+page.svelte',
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    removeFixtureDir(tmpDir);
+  });
+
+  const generate = (config: string) => {
+    const configPath = path.join(tmpDir, 'sitemap.config.mjs');
+    fs.writeFileSync(configPath, config);
+
+    return runCli([
+      'generate',
+      '--adapter',
+      'sveltekit',
+      '--config',
+      configPath,
+      '--out',
+      path.join(tmpDir, 'build'),
+      '--routes',
+      path.join(tmpDir, 'routes'),
+    ]);
+  };
+
+  it('writes the sitemap index and each child sitemap into the output directory', async () => {
+    const code = await generate(`export default () => ({
+  maxPerPage: 2,
+  origin: 'https://example.com',
+  paramValues: { '/blog/[slug]': ['hello', 'world'] },
+});
+`);
+
+    expect(code).toBe(0);
+    expect(fs.readdirSync(path.join(tmpDir, 'build')).sort()).toEqual([
+      'sitemap.xml',
+      'sitemap1.xml',
+      'sitemap2.xml',
+    ]);
+    expect(fs.readFileSync(path.join(tmpDir, 'build', 'sitemap.xml'), 'utf8')).toContain(
+      '<loc>https://example.com/sitemap2.xml</loc>'
+    );
+    expect(fs.readFileSync(path.join(tmpDir, 'build', 'sitemap2.xml'), 'utf8')).toContain(
+      '<loc>https://example.com/blog/world</loc>'
+    );
+  });
+
+  it('exits non-zero when paramValues do not match the routes', async () => {
+    const code = await generate(`export default { origin: 'https://example.com' };\n`);
+
+    expect(code).toBe(1);
+    expect(console.error).toHaveBeenCalledWith(
+      "super-sitemap: paramValues not provided for route: '/blog/[slug]'. Update excludeRoutePatterns to exclude this route or add data for this route's params to paramValues."
+    );
+    expect(fs.existsSync(path.join(tmpDir, 'build'))).toBe(false);
+  });
+
+  it('prints usage for unknown commands and invalid options', async () => {
+    expect(await runCli([])).toBe(1);
+    expect(await runCli(['deploy'])).toBe(1);
+    expect(await runCli(['generate', '--adapter', 'remix'])).toBe(1);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('`--adapter` must be "sveltekit" or "tanstack-start".')
+    );
+  });
+});
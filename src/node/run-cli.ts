@@ -0,0 +1,115 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { generateSitemapFiles, type SitemapAdapterName } from './generate.js';
+import { generateSvelteKitRouteTypes, generateTanStackStartRouteTypes } from './typegen.js';
+
+const USAGE = `Usage: super-sitemap <command> [options]
+
+Commands:
+  generate  Write sitemap.xml and, when it is an index, each child sitemap
+            into a directory, for statically deployed sites.
+  typegen   Write a .d.ts declaring route keys and param tuples, so
+            \`paramValues\` is checked at compile time.
+
+generate options:
+  --adapter <name>     sveltekit | tanstack-start (required)
+  --config <file>      Module default-exporting the sitemap config (required)
+  --out <dir>          Output directory (required)
+  --routes <dir>       SvelteKit routes directory (default: kit.files.routes
+                       from svelte.config.js, or src/routes)
+
+typegen options:
+  --adapter <name>     sveltekit | tanstack-start (required)
+  --routes <dir>       SvelteKit routes directory (default: kit.files.routes
+                       from svelte.config.js, or src/routes)
+  --route-tree <file>  TanStack route tree (default: src/routeTree.gen.ts)
+  --out <file>         Output file (default: src/sitemap-routes.d.ts)`;
+
+const ADAPTER_ERROR = '`--adapter` must be "sveltekit" or "tanstack-start".';
+
+/**
+ * Runs the CLI with the given arguments and returns its exit code. Errors,
+ * including invalid config and `paramValues` that don't match the app's
+ * routes, are printed and exit with code 1.
+ */
+export async function runCli(args: string[]): Promise<number> {
+  const [command, ...commandArgs] = args;
+
+  try {
+    if (command === 'generate') return await generate(commandArgs);
+    if (command === 'typegen') return await typegen(commandArgs);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+
+  console.error(command === undefined ? USAGE : `Unknown command '${command}'.\n\n${USAGE}`);
+  return 1;
+}
+
+async function generate(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      adapter: { type: 'string' },
+      config: { type: 'string' },
+      out: { type: 'string' },
+      routes: { type: 'string' },
+    },
+  });
+
+  if (!isAdapterName(values.adapter)) {
+    console.error(`${ADAPTER_ERROR}\n\n${USAGE}`);
+    return 1;
+  }
+
+  if (values.config === undefined || values.out === undefined) {
+    console.error(`\`--config\` and \`--out\` are required.\n\n${USAGE}`);
+    return 1;
+  }
+
+  const filePaths = await generateSitemapFiles({
+    adapter: values.adapter,
+    configPath: values.config,
+    outDir: values.out,
+    routesDir: values.routes,
+  });
+
+  for (const filePath of filePaths) console.log(`super-sitemap: wrote ${filePath}`);
+  return 0;
+}
+
+async function typegen(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      adapter: { type: 'string' },
+      out: { type: 'string' },
+      routes: { type: 'string' },
+      'route-tree': { type: 'string' },
+    },
+  });
+
+  const out = values.out ?? 'src/sitemap-routes.d.ts';
+  let contents: string;
+
+  if (values.adapter === 'sveltekit') {
+    contents = await generateSvelteKitRouteTypes({ routesDir: values.routes });
+  } else if (values.adapter === 'tanstack-start') {
+    contents = generateTanStackStartRouteTypes({ routeTree: values['route-tree'] });
+  } else {
+    console.error(`${ADAPTER_ERROR}\n\n${USAGE}`);
+    return 1;
+  }
+
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, contents);
+  console.log(`super-sitemap: wrote route types to ${out}`);
+  return 0;
+}
+
+function isAdapterName(adapter: unknown): adapter is SitemapAdapterName {
+  return adapter === 'sveltekit' || adapter === 'tanstack-start';
+}
@@ -0,0 +1,139 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  createFixtureDir,
+  removeFixtureDir,
+  writeFixtureFiles,
+} from '../test-utils/sveltekit-route-files.js';
+import {
+  discoverSvelteKitPageRouteFilesFromDisk,
+  discoverSvelteKitPageSitemapsFromDisk,
+  discoverSvelteKitParamMatchersFromDisk,
+} from './sveltekit-routes.js';
+
+describe('SvelteKit route discovery from disk', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = createFixtureDir('discovery');
+  });
+
+  afterEach(() => {
+    removeFixtureDir(tmpDir);
+  });
+
+  it('discovers page files under src/routes and excludes endpoints', async () => {
+    writeFixtureFiles(tmpDir, [
+      'src/routes/+page.svelte',
+      'src/routes/+page.server.ts',
+      'src/routes/(marketing)/about/+page@.svelte',
+      'src/routes/blog/[slug]/+page.md',
+      'src/routes/docs/+page.svx',
+      'src/routes/api/+server.ts',
+    ]);
+
+    expect(await discoverSvelteKitPageRouteFilesFromDisk({ cwd: tmpDir })).toEqual([
+      '/src/routes/(marketing)/about/+page@.svelte',
+      '/src/routes/+page.svelte',
+      '/src/routes/blog/[slug]/+page.md',
+      '/src/routes/docs/+page.svx',
+    ]);
+  });
+
+  it('reads the routes directory and extra extensions from svelte.config.js', async () => {
+    fs.writeFileSync(
+      path.join(tmpDir, 'svelte.config.js'),
+      "export default { extensions: ['.svelte', '.mdx'], kit: { files: { routes: 'app/pages' } } };\n"
+    );
+    writeFixtureFiles(tmpDir, [
+      'app/pages/+page.svelte',
+      'app/pages/guide/+page.mdx',
+      'app/pages/notes/+page.txt',
+      'src/routes/ignored/+page.svelte',
+    ]);
+
+    expect(await discoverSvelteKitPageRouteFilesFromDisk({ cwd: tmpDir })).toEqual([
+      '/src/routes/+page.svelte',
+      '/src/routes/guide/+page.mdx',
+    ]);
+    expect(
+      await discoverSvelteKitPageRouteFilesFromDisk({
+        cwd: tmpDir,
+        extensions: ['.txt'],
+        routesDir: 'app/pages',
+      })
+    ).toEqual(['/src/routes/+page.svelte', '/src/routes/notes/+page.txt']);
+  });
+
+  it('rejects a missing routes directory', async () => {
+    await expect(
+      discoverSvelteKitPageRouteFilesFromDisk({ cwd: tmpDir, routesDir: 'missing' })
+    ).rejects.toThrow(
+      `super-sitemap: routes directory '${path.join(tmpDir, 'missing')}' does not exist.`
+    );
+  });
+
+  it('imports TypeScript param matchers from src/params or kit.files.params', async () => {
+    writeFixtureFiles(tmpDir, {
+      'src/params/integer.test.ts': 'throw new Error("not a matcher");\n',
+      'src/params/integer.ts': [
+        "import type { ParamMatcher } from '@sveltejs/kit';",
+        '',
+        'export const match = ((param: string): boolean => /^\\d+$/.test(param)) satisfies ParamMatcher;',
+      ].join('\n'),
+    });
+
+    const matchers = await discoverSvelteKitParamMatchersFromDisk({ cwd: tmpDir });
+    expect(Object.keys(matchers)).toEqual(['integer']);
+    expect([matchers.integer?.('12'), matchers.integer?.('twelve')]).toEqual([true, false]);
+
+    fs.writeFileSync(
+      path.join(tmpDir, 'svelte.config.js'),
+      "export default { kit: { files: { params: 'app/matchers' } } };\n"
+    );
+    expect(await discoverSvelteKitParamMatchersFromDisk({ cwd: tmpDir })).toEqual({});
+
+    writeFixtureFiles(tmpDir, { 'app/matchers/slug.js': 'export const matches = () => true;\n' });
+    await expect(discoverSvelteKitParamMatchersFromDisk({ cwd: tmpDir })).rejects.toThrow(
+      `super-sitemap: param matcher '${path.join(tmpDir, 'app/matchers/slug.js')}' must export a \`match\` function.`
+    );
+
+    writeFixtureFiles(tmpDir, { 'app/matchers/broken.js': 'export const match = (;\n' });
+    await expect(discoverSvelteKitParamMatchersFromDisk({ cwd: tmpDir })).rejects.toThrow(
+      `super-sitemap: could not import '${path.join(tmpDir, 'app/matchers/broken.js')}'`
+    );
+  });
+
+  it('imports page sitemap exports from +page and +page.server modules', async () => {
+    writeFixtureFiles(tmpDir, {
+      'src/routes/(app)/drafts/+page.server.ts': [
+        'const posts = "/src/posts/*.md";',
+        'export const sitemap = { exclude: true };',
+        'const indexes = "/src/posts/**/index.md";',
+      ].join('\n'),
+      'src/routes/+page.svelte': '',
+      'src/routes/+page.ts': 'export const prerender = true;\n',
+      'src/routes/pricing/+page.ts': [
+        "const changefreq: 'weekly' = 'weekly';",
+        'export const sitemap = { changefreq, priority: 0.5 + 0.4 };',
+      ].join('\n'),
+      'src/routes/pricing/+layout.ts': 'export const sitemap = { exclude: true };\n',
+    });
+
+    expect(await discoverSvelteKitPageSitemapsFromDisk({ cwd: tmpDir })).toEqual({
+      '/src/routes/(app)/drafts': { exclude: true },
+      '/src/routes/pricing': { changefreq: 'weekly', priority: 0.9 },
+    });
+
+    fs.writeFileSync(
+      path.join(tmpDir, 'src/routes/pricing/+page.ts'),
+      'export const sitemap = { priority: "high" };\n'
+    );
+    await expect(discoverSvelteKitPageSitemapsFromDisk({ cwd: tmpDir })).rejects.toThrow(
+      "super-sitemap: `sitemap.priority` exported from '/src/routes/pricing/+page.ts' must be a number from 0.0 to 1.0."
+    );
+  });
+});
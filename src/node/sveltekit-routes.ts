@@ -0,0 +1,241 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+import { pathToFileURL } from 'node:url';
+
+import { collectSvelteKitPageSitemaps } from '../adapters/sveltekit/internal/routes.js';
+import type { ParamMatchers, RouteSitemap } from '../core/internal/types.js';
+import { importModulesWithVite } from './vite-modules.js';
+
+const DEFAULT_PAGE_EXTENSIONS = ['.svelte', '.md', '.svx'];
+const DEFAULT_PARAMS_DIR = 'src/params';
+const DEFAULT_ROUTES_DIR = 'src/routes';
+const PAGE_MODULE_FILE_REGEX = /^\+page(?:\.server)?\.(?:js|ts)$/;
+const PARAM_MATCHER_FILE_REGEX = /^(\w+)\.(?:js|ts)$/;
+
+export type DiscoverSvelteKitPageRouteFilesFromDiskOptions = {
+  /** App root containing `svelte.config.js`. Defaults to the working directory. */
+  cwd?: string;
+  /** Extra page extensions, e.g. `['.mdx']`. Defaults to `svelte.config.js` `extensions`. */
+  extensions?: string[];
+  /** Routes directory, relative to `cwd`. Defaults to `kit.files.routes`, or `src/routes`. */
+  routesDir?: string;
+};
+
+export type DiscoverSvelteKitPageSitemapsFromDiskOptions = Pick<
+  DiscoverSvelteKitPageRouteFilesFromDiskOptions,
+  'cwd' | 'routesDir'
+> & {
+  /** Vite config file to import page modules with. Defaults to Vite's lookup in `cwd`. */
+  viteConfigFile?: string | false;
+};
+
+export type DiscoverSvelteKitParamMatchersFromDiskOptions = {
+  /** App root containing `svelte.config.js`. Defaults to the working directory. */
+  cwd?: string;
+  /** Params directory, relative to `cwd`. Defaults to `kit.files.params`, or `src/params`. */
+  paramsDir?: string;
+  /** Vite config file to import matchers with. Defaults to Vite's lookup in `cwd`. */
+  viteConfigFile?: string | false;
+};
+
+type SvelteConfig = {
+  extensions?: unknown;
+  kit?: { files?: { params?: unknown; routes?: unknown } };
+};
+
+/**
+ * Discovers SvelteKit page route files by walking the routes directory with
+ * `node:fs`, for Node scripts and tests that run outside Vite.
+ *
+ * @remarks
+ * Reads `kit.files.routes` and `extensions` from the app's `svelte.config.js`
+ * when present. `.svelte`, `.md`, and `.svx` pages are always included, as with
+ * the adapter's `import.meta.glob` discovery. Endpoints such as `+server.ts`
+ * are excluded.
+ *
+ * @returns Page route files in the `/src/routes/.../+page.svelte` shape used by
+ *          the `routeFiles` config, whatever the routes directory is.
+ */
+export async function discoverSvelteKitPageRouteFilesFromDisk({
+  cwd = process.cwd(),
+  extensions,
+  routesDir,
+}: DiscoverSvelteKitPageRouteFilesFromDiskOptions = {}): Promise<string[]> {
+  const svelteConfig = await loadSvelteConfig(cwd);
+  const configExtensions = svelteConfig.extensions;
+
+  return listSvelteKitPageRouteFiles(
+    resolveRoutesDir(cwd, routesDir, svelteConfig),
+    extensions ?? (isStringArray(configExtensions) ? configExtensions : [])
+  );
+}
+
+/**
+ * Imports the `sitemap` exports of SvelteKit page modules (`+page.ts` and
+ * `+page.server.ts`, or `.js`) from the routes directory through Vite, for code
+ * running outside the app's Vite build.
+ *
+ * @remarks
+ * Page modules are imported with the app's Vite config, as the adapter's
+ * `import.meta.glob` discovery imports them, and validated the same way, so
+ * static and runtime sitemaps match.
+ *
+ * @returns Exports keyed by route directory in the `/src/routes/...` shape used
+ *          by the `pageSitemaps` config.
+ */
+export async function discoverSvelteKitPageSitemapsFromDisk({
+  cwd = process.cwd(),
+  routesDir,
+  viteConfigFile,
+}: DiscoverSvelteKitPageSitemapsFromDiskOptions = {}): Promise<Record<string, RouteSitemap>> {
+  const dirPath = resolveRoutesDir(cwd, routesDir, await loadSvelteConfig(cwd));
+  if (!fs.existsSync(dirPath)) {
+    throw new Error(`super-sitemap: routes directory '${dirPath}' does not exist.`);
+  }
+
+  const filePaths = listFilesRecursively(dirPath)
+    .filter((filePath) => PAGE_MODULE_FILE_REGEX.test(path.basename(filePath)))
+    .sort();
+  const modules = await importModulesWithVite(filePaths, { cwd, viteConfigFile });
+
+  return collectSvelteKitPageSitemaps(
+    Object.fromEntries(
+      filePaths.map((filePath) => [toSrcRoutesPath(dirPath, filePath), modules[filePath]?.sitemap])
+    )
+  );
+}
+
+/**
+ * Imports the app's param matchers from its params directory through Vite, for
+ * code running outside the app's Vite build, keyed by matcher name as with the
+ * adapter's `import.meta.glob` discovery.
+ *
+ * @remarks
+ * Vite loads TypeScript matchers and resolves their imports with the app's Vite
+ * config, so no TypeScript loader is needed. A matcher that fails to import
+ * throws instead of being skipped, so `paramValues` are never published
+ * unchecked.
+ *
+ * @returns Matchers by name; empty when the params directory does not exist.
+ */
+export async function discoverSvelteKitParamMatchersFromDisk({
+  cwd = process.cwd(),
+  paramsDir,
+  viteConfigFile,
+}: DiscoverSvelteKitParamMatchersFromDiskOptions = {}): Promise<ParamMatchers> {
+  const configParamsDir = (await loadSvelteConfig(cwd)).kit?.files?.params;
+  const dirPath = path.resolve(
+    cwd,
+    paramsDir ?? (typeof configParamsDir === 'string' ? configParamsDir : DEFAULT_PARAMS_DIR)
+  );
+  if (!fs.existsSync(dirPath)) return {};
+
+  const filePathsByName = Object.fromEntries(
+    fs.readdirSync(dirPath).flatMap((fileName) => {
+      const name = PARAM_MATCHER_FILE_REGEX.exec(fileName)?.[1];
+      return name === undefined ? [] : [[name, path.join(dirPath, fileName)]];
+    })
+  );
+  const modules = await importModulesWithVite(Object.values(filePathsByName).sort(), {
+    cwd,
+    viteConfigFile,
+  });
+  const matchers: ParamMatchers = {};
+
+  for (const [name, filePath] of Object.entries(filePathsByName)) {
+    const match = modules[filePath]?.match;
+
+    if (typeof match !== 'function') {
+      throw new Error(
+        `super-sitemap: param matcher '${filePath}' must export a \`match\` function.`
+      );
+    }
+    matchers[name] = match as ParamMatchers[string];
+  }
+
+  return matchers;
+}
+
+/**
+ * Lists SvelteKit page route files by walking the routes directory, in the
+ * `/src/routes/...` shape returned by `discoverSvelteKitPageRouteFiles`.
+ *
+ * @param routesDir - Path to the app's routes directory.
+ * @param extensions - Page extensions in addition to `.svelte`, `.md`, and `.svx`.
+ */
+export function listSvelteKitPageRouteFiles(
+  routesDir: string,
+  extensions: string[] = []
+): string[] {
+  if (!fs.existsSync(routesDir)) {
+    throw new Error(`super-sitemap: routes directory '${routesDir}' does not exist.`);
+  }
+
+  const pageExtensions = [...DEFAULT_PAGE_EXTENSIONS, ...extensions];
+
+  return listFilesRecursively(routesDir)
+    .filter((filePath) => {
+      const fileName = path.basename(filePath);
+      return (
+        fileName.startsWith('+page') &&
+        pageExtensions.some((extension) => fileName.endsWith(extension))
+      );
+    })
+    .map((filePath) => toSrcRoutesPath(routesDir, filePath))
+    .sort();
+}
+
+/**
+ * Imports the app's `svelte.config.js`, or returns an empty config without one.
+ */
+async function loadSvelteConfig(cwd: string): Promise<SvelteConfig> {
+  const configPath = path.join(cwd, 'svelte.config.js');
+  if (!fs.existsSync(configPath)) return {};
+
+  const module: { default?: unknown } = await import(pathToFileURL(configPath).href);
+  return typeof module.default === 'object' && module.default !== null ? module.default : {};
+}
+
+/**
+ * Resolves the routes directory from the option, `kit.files.routes`, or the
+ * SvelteKit default.
+ */
+function resolveRoutesDir(
+  cwd: string,
+  routesDir: string | undefined,
+  svelteConfig: SvelteConfig
+): string {
+  const configRoutesDir = svelteConfig.kit?.files?.routes;
+  return path.resolve(
+    cwd,
+    routesDir ?? (typeof configRoutesDir === 'string' ? configRoutesDir : DEFAULT_ROUTES_DIR)
+  );
+}
+
+/**
+ * Converts a file under the routes directory to the `/src/routes/...` shape.
+ */
+function toSrcRoutesPath(routesDir: string, filePath: string): string {
+  return `/src/routes/${path.relative(routesDir, filePath).split(path.sep).join('/')}`;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function listFilesRecursively(dirPath: string): string[] {
+  const filePaths: string[] = [];
+
+  for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+    const entryPath = path.join(dirPath, entry.name);
+
+    if (entry.isDirectory()) {
+      filePaths.push(...listFilesRecursively(entryPath));
+    } else if (entry.isFile()) {
+      filePaths.push(entryPath);
+    }
+  }
+
+  return filePaths;
+}
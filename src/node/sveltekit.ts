@@ -0,0 +1,8 @@
+export {
+  discoverSvelteKitPageRouteFilesFromDisk,
+  discoverSvelteKitPageSitemapsFromDisk,
+  discoverSvelteKitParamMatchersFromDisk,
+  type DiscoverSvelteKitPageRouteFilesFromDiskOptions,
+  type DiscoverSvelteKitPageSitemapsFromDiskOptions,
+  type DiscoverSvelteKitParamMatchersFromDiskOptions,
+} from './sveltekit-routes.js';
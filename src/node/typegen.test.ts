@@ -0,0 +1,102 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  createFixtureDir,
+  removeFixtureDir,
+  writeFixtureFiles,
+} from '../test-utils/sveltekit-route-files.js';
+import { generateSvelteKitRouteTypes, generateTanStackStartRouteTypes } from './typegen.js';
+
+describe('route type generation', () => {
+  it('declares SvelteKit route keys with their param tuples', async () => {
+    const tmpDir = createFixtureDir('typegen');
+
+    try {
+      writeFixtureFiles(tmpDir, [
+        '+page.svelte',
+        '(marketing)/about/+page.svelte',
+        'blog/[slug]/+page.md',
+        'blog/[[category]]/+page.svelte',
+        'campsites/[country]/[state]/+page.svelte',
+        '[[locale]]/docs/[...rest]/+page.svx',
+        'api/[id]/+server.ts',
+      ]);
+
+      expect(await generateSvelteKitRouteTypes({ cwd: tmpDir, routesDir: '.' }))
+        .toBe(`// Generated by \`super-sitemap typegen\`. Do not edit.
+export {};
+
+declare module 'super-sitemap/sveltekit' {
+  interface SitemapRoutes {
+    '/': [];
+    '/[[locale]]/docs/[...rest]': [rest: string];
+    '/about': [];
+    '/blog': [];
+    '/blog/[[category]]': [category: string];
+    '/blog/[slug]': [slug: string];
+    '/campsites/[country]/[state]': [country: string, state: string];
+  }
+}
+`);
+    } finally {
+      removeFixtureDir(tmpDir);
+    }
+  });
+
+  it('declares TanStack Start route keys from the generated route tree', () => {
+    const tmpDir = createFixtureDir('typegen');
+    const routeTree = path.join(tmpDir, 'routeTree.gen.ts');
+
+    try {
+      fs.writeFileSync(
+        routeTree,
+        `export interface FileRoutesByFullPath {
+  '/': typeof IndexRoute
+  '/_layout/about': typeof AboutRoute
+  '/{-$locale}/blog/$slug': typeof BlogSlugRoute
+  '/docs/$': typeof DocsSplatRoute
+  '/campsites/$country/$state': typeof CampsitesRoute
+}
+export interface FileRoutesByTo {
+  '/ignored/$id': typeof IgnoredRoute
+}
+`
+      );
+
+      expect(generateTanStackStartRouteTypes({ routeTree }))
+        .toBe(`// Generated by \`super-sitemap typegen\`. Do not edit.
+export {};
+
+declare module 'super-sitemap/tanstack-start' {
+  interface SitemapRoutes {
+    '/': [];
+    '/about': [];
+    '/{-$locale}/blog/$slug': [slug: string];
+    '/docs/$': [_splat: string];
+    '/campsites/$country/$state': [country: string, state: string];
+  }
+}
+`);
+    } finally {
+      removeFixtureDir(tmpDir);
+    }
+  });
+
+  it('rejects a route tree without FileRoutesByFullPath', () => {
+    const tmpDir = createFixtureDir('typegen');
+    const routeTree = path.join(tmpDir, 'routeTree.gen.ts');
+
+    try {
+      fs.writeFileSync(routeTree, 'export const routeTree = {};\n');
+
+      expect(() => generateTanStackStartRouteTypes({ routeTree })).toThrow(
+        `super-sitemap: '${routeTree}' has no \`FileRoutesByFullPath\` interface.`
+      );
+    } finally {
+      removeFixtureDir(tmpDir);
+    }
+  });
+});
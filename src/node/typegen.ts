@@ -0,0 +1,113 @@
+import fs from 'node:fs';
+
+import {
+  convertToNormalizedRoute,
+  expandOptionalParamRouteVariants,
+  normalizeSvelteKitRouteFile,
+  removeSvelteKitRouteGroups,
+} from '../adapters/sveltekit/internal/routes.js';
+import { createTanStackStartNormalizedRoutes } from '../adapters/tanstack-start/internal/routes.js';
+import { deduplicateNormalizedRoutesByCompatibilityKey } from '../core/internal/normalized-routes.js';
+import type { NormalizedRoute } from '../core/internal/types.js';
+import {
+  discoverSvelteKitPageRouteFilesFromDisk,
+  type DiscoverSvelteKitPageRouteFilesFromDiskOptions,
+} from './sveltekit-routes.js';
+
+const FULL_PATHS_INTERFACE_REGEX = /export interface FileRoutesByFullPath \{([\s\S]*?)\n\}/;
+const QUOTED_KEY_REGEX = /^\s*(['"])(.+?)\1\s*:/gm;
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Generates a `.d.ts` declaring the SvelteKit app's route keys and param
+ * tuples, from the page files in its routes directory.
+ *
+ * @param options - Route discovery options; `routesDir` defaults to
+ *                  `kit.files.routes` from `svelte.config.js`, or `src/routes`.
+ * @returns The declaration file contents.
+ */
+export async function generateSvelteKitRouteTypes(
+  options: Pick<DiscoverSvelteKitPageRouteFilesFromDiskOptions, 'cwd' | 'routesDir'> = {}
+): Promise<string> {
+  const routes = (await discoverSvelteKitPageRouteFilesFromDisk(options))
+    .map((filePath) => removeSvelteKitRouteGroups(normalizeSvelteKitRouteFile(filePath)))
+    .sort((a, b) => a.localeCompare(b))
+    .flatMap(expandOptionalParamRouteVariants)
+    .map((route) => convertToNormalizedRoute({ route }));
+
+  return renderRouteTypes(
+    'super-sitemap/sveltekit',
+    deduplicateNormalizedRoutesByCompatibilityKey(routes)
+  );
+}
+
+/**
+ * Generates a `.d.ts` declaring the TanStack Start app's route keys and param
+ * tuples, from the `FileRoutesByFullPath` interface of its generated route tree.
+ *
+ * @remarks
+ * The route tree does not record which routes are server-only, so endpoints
+ * are declared too. Only routes with params affect `paramValues`.
+ *
+ * @param options - `routeTree` defaults to `src/routeTree.gen.ts`.
+ * @returns The declaration file contents.
+ */
+export function generateTanStackStartRouteTypes({
+  routeTree = 'src/routeTree.gen.ts',
+}: { routeTree?: string } = {}): string {
+  const match = FULL_PATHS_INTERFACE_REGEX.exec(fs.readFileSync(routeTree, 'utf8'));
+
+  if (!match) {
+    throw new Error(
+      `super-sitemap: '${routeTree}' has no \`FileRoutesByFullPath\` interface. Pass the route tree generated by TanStack Router.`
+    );
+  }
+
+  const routesByPath = Object.fromEntries(
+    [...(match[1] ?? '').matchAll(QUOTED_KEY_REGEX)].map(([, , fullPath]) => [
+      fullPath,
+      { fullPath },
+    ])
+  );
+
+  return renderRouteTypes(
+    'super-sitemap/tanstack-start',
+    createTanStackStartNormalizedRoutes({ router: () => ({ routesByPath }) })
+  );
+}
+
+/**
+ * Renders the module augmentation that fills in `SitemapRoutes`.
+ */
+function renderRouteTypes(moduleName: string, normalizedRoutes: NormalizedRoute[]): string {
+  const entries = normalizedRoutes.map(
+    ({ params = [], source }) =>
+      `    ${quote(source.compatibilityKey)}: ${renderParamTuple(params)};`
+  );
+
+  return [
+    '// Generated by `super-sitemap typegen`. Do not edit.',
+    'export {};',
+    '',
+    `declare module '${moduleName}' {`,
+    '  interface SitemapRoutes {',
+    ...entries,
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Renders a param tuple, labelled with param names when they are identifiers.
+ */
+function renderParamTuple(params: NonNullable<NormalizedRoute['params']>): string {
+  const names = [...params].sort((a, b) => a.segmentIndex - b.segmentIndex).map(({ name }) => name);
+  const labelled = names.every((name) => IDENTIFIER_REGEX.test(name));
+
+  return `[${names.map((name) => (labelled ? `${name}: string` : 'string')).join(', ')}]`;
+}
+
+function quote(value: string): string {
+  return `'${value.replaceAll('\\', '\\\\').replaceAll("'", "\\'")}'`;
+}
@@ -0,0 +1,55 @@
+export type ImportModulesWithViteOptions = {
+  /** App root the modules belong to. */
+  cwd: string;
+  /**
+   * Vite config file whose plugins and aliases resolve the modules' imports,
+   * e.g. `$lib`. Defaults to Vite's own lookup in `cwd`; `false` loads none.
+   */
+  viteConfigFile?: string | false;
+};
+
+/**
+ * Imports modules through a Vite dev server's SSR module loader, so TypeScript
+ * modules and the app's aliases load as they do in the app itself.
+ *
+ * @remarks
+ * The server is started only when there are modules to import, never listens,
+ * and is closed before returning. A module that fails to import throws, naming
+ * the file.
+ *
+ * @param filePaths - Absolute paths of the modules.
+ * @returns Module namespaces by file path.
+ */
+export async function importModulesWithVite(
+  filePaths: string[],
+  { cwd, viteConfigFile }: ImportModulesWithViteOptions
+): Promise<Record<string, Record<string, unknown>>> {
+  if (filePaths.length === 0) return {};
+
+  const { createServer } = await import('vite');
+  const server = await createServer({
+    appType: 'custom',
+    configFile: viteConfigFile,
+    logLevel: 'silent',
+    root: cwd,
+    server: { hmr: false, middlewareMode: true },
+  });
+
+  try {
+    const modules: Record<string, Record<string, unknown>> = {};
+
+    for (const filePath of filePaths) {
+      try {
+        modules[filePath] = await server.ssrLoadModule(filePath);
+      } catch (error) {
+        throw new Error(
+          `super-sitemap: could not import '${filePath}': ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return modules;
+  } finally {
+    await server.close();
+  }
+}
@@ -0,0 +1,141 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import type { Plugin } from 'vite';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  createFixtureDir,
+  removeFixtureDir,
+  writeFixtureFiles,
+} from '../test-utils/sveltekit-route-files.js';
+import { superSitemap, type SuperSitemapPluginOptions } from './vite.js';
+
+describe('super-sitemap Vite plugin', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = createFixtureDir('vite');
+    writeFixtureFiles(tmpDir, [
+      'src/routes/+page.svelte',
+      'src/routes/about/+page.svelte',
+      'src/routes/blog/[slug]/+page.svelte',
+      'src/routes/dashboard/+page.svelte',
+    ]);
+  });
+
+  afterEach(() => {
+    removeFixtureDir(tmpDir);
+  });
+
+  const build = async (options: SuperSitemapPluginOptions, { ssr = false } = {}) => {
+    const plugin = superSitemap(options);
+    const emitted: Array<{ fileName: string; source: string }> = [];
+    const info = vi.fn();
+
+    plugin.configResolved({ build: { ssr }, logger: { info }, root: tmpDir });
+    await plugin.generateBundle.call({
+      emitFile: ({ fileName, source }) => {
+        emitted.push({ fileName, source });
+        return fileName;
+      },
+    });
+
+    return { emitted, info };
+  };
+
+  it('is assignable to a Vite plugin', () => {
+    const plugin: Plugin = superSitemap({ adapter: 'sveltekit', config: { origin: 'x' } });
+    expect(plugin.name).toBe('super-sitemap');
+  });
+
+  it('emits sitemap files as assets and logs route coverage', async () => {
+    const { emitted, info } = await build({
+      adapter: 'sveltekit',
+      config: async () => ({
+        excludeRoutePatterns: [/^\/dashboard/],
+        maxPerPage: 2,
+        origin: 'https://example.com',
+        paramValues: { '/blog/[slug]': ['hello'] },
+      }),
+    });
+
+    expect(emitted.map(({ fileName }) => fileName)).toEqual([
+      'sitemap.xml',
+      'sitemap1.xml',
+      'sitemap2.xml',
+    ]);
+    expect(emitted[2]?.source).toContain('<loc>https://example.com/blog/hello</loc>');
+    expect(info).toHaveBeenCalledWith(
+      [
+        'super-sitemap: emitted sitemap.xml, sitemap1.xml, sitemap2.xml',
+        '  routes: 3 included, 1 excluded (/dashboard), 1 with paramValues',
+        '  urls: 3',
+      ].join('\n')
+    );
+  });
+
+  it('skips SSR builds', async () => {
+    const { emitted, info } = await build(
+      { adapter: 'sveltekit', config: { origin: 'https://example.com' } },
+      { ssr: true }
+    );
+
+    expect(emitted).toEqual([]);
+    expect(info).not.toHaveBeenCalled();
+  });
+
+  it('fails the build when paramValues do not match the routes', async () => {
+    await expect(
+      build({ adapter: 'sveltekit', config: { origin: 'https://example.com' } })
+    ).rejects.toThrow("super-sitemap: paramValues not provided for route: '/blog/[slug]'.");
+  });
+
+  it('checks paramValues against the param matchers in src/params', async () => {
+    writeFixtureFiles(tmpDir, {
+      'src/params/slug.ts':
+        'export const match = (param: string): boolean => /^[a-z-]+$/.test(param);\n',
+    });
+    fs.renameSync(
+      path.join(tmpDir, 'src', 'routes', 'blog', '[slug]'),
+      path.join(tmpDir, 'src', 'routes', 'blog', '[slug=slug]')
+    );
+
+    await expect(
+      build({
+        adapter: 'sveltekit',
+        config: { origin: 'https://example.com', paramValues: { '/blog/[slug=slug]': ['Hello'] } },
+      })
+    ).rejects.toThrow(
+      "super-sitemap: paramValues for route '/blog/[slug=slug]' include 'Hello' for param 'slug', which the 'slug' param matcher rejects"
+    );
+  });
+
+  it('applies route-level sitemap exports and counts their exclusions', async () => {
+    writeFixtureFiles(tmpDir, {
+      'src/routes/+page.server.ts': 'export const sitemap = { priority: 1.0 };\n',
+      'src/routes/about/+page.ts': [
+        'export const posts = import.meta.glob("/src/posts/*.md");',
+        'export const sitemap = { exclude: true };',
+        'export const indexes = "/src/posts/**/index.md";',
+      ].join('\n'),
+    });
+
+    const { emitted, info } = await build({
+      adapter: 'sveltekit',
+      config: {
+        excludeRoutePatterns: [/^\/dashboard/],
+        origin: 'https://example.com',
+        paramValues: { '/blog/[slug]': ['hello'] },
+      },
+    });
+
+    expect(emitted[0]?.source).not.toContain('/about');
+    expect(emitted[0]?.source).toContain(
+      '<loc>https://example.com/</loc>\n    <priority>1</priority>'
+    );
+    expect(info.mock.calls[0]?.[0]).toContain(
+      '  routes: 2 included, 2 excluded (/about, /dashboard), 1 with paramValues'
+    );
+  });
+});
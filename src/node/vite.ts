@@ -0,0 +1,156 @@
+import process from 'node:process';
+
+import { createSvelteKitNormalizedRoutes } from '../adapters/sveltekit/internal/routes.js';
+import type { SitemapConfig as SvelteKitSitemapConfig } from '../adapters/sveltekit/internal/types.js';
+import { createTanStackStartNormalizedRoutes } from '../adapters/tanstack-start/internal/routes.js';
+import type { SitemapConfig as TanStackStartSitemapConfig } from '../adapters/tanstack-start/internal/types.js';
+import type { SitemapFile } from '../core/internal/sitemap.js';
+import type { NormalizedRoute } from '../core/internal/types.js';
+import { getAdapterSitemapFiles, withSvelteKitDiskDiscovery } from './generate.js';
+
+type ConfigInput<Config> = Config | (() => Config | Promise<Config>);
+
+export type SuperSitemapPluginOptions =
+  | {
+      adapter: 'sveltekit';
+      /** The sitemap config, or an (async) function returning it. */
+      config: ConfigInput<Omit<SvelteKitSitemapConfig, 'page'>>;
+      /**
+       * Routes directory, relative to the Vite root. Defaults to
+       * `kit.files.routes` from `svelte.config.js`, or `src/routes`.
+       */
+      routesDir?: string;
+    }
+  | {
+      adapter: 'tanstack-start';
+      /** The sitemap config, or an (async) function returning it. */
+      config: ConfigInput<Omit<TanStackStartSitemapConfig, 'page'>>;
+    };
+
+/**
+ * The subset of Vite's plugin API the plugin uses, typed structurally so it is
+ * assignable to the `Plugin` type of any supported Vite version.
+ */
+export type SuperSitemapVitePlugin = {
+  name: string;
+  apply: 'build';
+  configResolved(config: {
+    build: { ssr?: boolean | string };
+    configFile?: string;
+    logger: { info(message: string): void };
+    root: string;
+  }): void;
+  generateBundle(this: {
+    emitFile(file: { fileName: string; source: string; type: 'asset' }): string;
+    environment?: { name: string };
+  }): Promise<void>;
+};
+
+type RouteCoverage = {
+  excluded: string[];
+  included: number;
+  withParamValues: number;
+};
+
+/**
+ * Vite plugin that generates the sitemap at the end of the client build and
+ * emits its files as assets, e.g. `sitemap.xml`, for sites without a runtime
+ * sitemap endpoint. Logs route coverage to the build log.
+ *
+ * @remarks
+ * SvelteKit routes, param matchers, and route-level `sitemap` exports are read
+ * from disk, matching what `import.meta.glob` discovers at runtime. Matchers
+ * and page modules are imported through Vite with the build's config file.
+ * TanStack Start configs pass `router` as usual. Config and `paramValues`
+ * errors fail the build.
+ */
+export function superSitemap(options: SuperSitemapPluginOptions): SuperSitemapVitePlugin {
+  let logger: { info(message: string): void } = console;
+  let root = process.cwd();
+  let ssrBuild = false;
+  let viteConfigFile: string | false = false;
+
+  return {
+    apply: 'build',
+    configResolved(config) {
+      logger = config.logger;
+      root = config.root;
+      ssrBuild = Boolean(config.build.ssr);
+      viteConfigFile = config.configFile ?? false;
+    },
+    async generateBundle() {
+      if (ssrBuild || (this.environment !== undefined && this.environment.name !== 'client')) {
+        return;
+      }
+
+      let config = typeof options.config === 'function' ? await options.config() : options.config;
+
+      if (options.adapter === 'sveltekit') {
+        config = await withSvelteKitDiskDiscovery(config as SvelteKitSitemapConfig, {
+          cwd: root,
+          routesDir: options.routesDir,
+          viteConfigFile,
+        });
+      }
+
+      const files = await getAdapterSitemapFiles({ adapter: options.adapter, config });
+
+      for (const { body, path: filePath } of files) {
+        this.emitFile({ fileName: filePath.slice(1), source: body, type: 'asset' });
+      }
+
+      logger.info(formatCoverage(files, getRouteCoverage(options.adapter, config)));
+    },
+    name: 'super-sitemap',
+  };
+}
+
+/**
+ * Compares the adapter's routes with and without `excludeRoutePatterns`.
+ * Routes excluded by their own `sitemap` export count as excluded too.
+ */
+function getRouteCoverage(
+  adapter: SuperSitemapPluginOptions['adapter'],
+  config: Omit<SvelteKitSitemapConfig | TanStackStartSitemapConfig, 'page'>
+): RouteCoverage {
+  const createRoutes = (excludeRoutePatterns?: RegExp[]): NormalizedRoute[] =>
+    adapter === 'sveltekit'
+      ? createSvelteKitNormalizedRoutes({
+          excludeRoutePatterns,
+          locales: config.locales,
+          pageSitemaps: (config as SvelteKitSitemapConfig).pageSitemaps,
+          routeFiles: (config as SvelteKitSitemapConfig).routeFiles,
+        })
+      : createTanStackStartNormalizedRoutes({
+          excludeRoutePatterns,
+          router: (config as TanStackStartSitemapConfig).router,
+        });
+
+  const includedKeys = new Set(
+    createRoutes(config.excludeRoutePatterns)
+      .filter(({ sitemap }) => !sitemap?.exclude)
+      .map(({ source }) => source.compatibilityKey)
+  );
+  const paramValueKeys = Object.keys(config.paramValues ?? {});
+
+  return {
+    excluded: createRoutes()
+      .map(({ source }) => source.compatibilityKey)
+      .filter((key) => !includedKeys.has(key)),
+    included: includedKeys.size,
+    withParamValues: paramValueKeys.filter((key) => includedKeys.has(key)).length,
+  };
+}
+
+function formatCoverage(files: SitemapFile[], coverage: RouteCoverage): string {
+  const urls = files.reduce((total, file) => total + file.urls, 0);
+  const excluded = coverage.excluded.length
+    ? `${coverage.excluded.length} excluded (${coverage.excluded.join(', ')})`
+    : '0 excluded';
+
+  return [
+    `super-sitemap: emitted ${files.map(({ path: filePath }) => filePath.slice(1)).join(', ')}`,
+    `  routes: ${coverage.included} included, ${excluded}, ${coverage.withParamValues} with paramValues`,
+    `  urls: ${urls}`,
+  ].join('\n');
+}
@@ -1,61 +1,51 @@
 import fs from 'node:fs';
+import os from 'node:os';
 import path from 'node:path';
 
 /**
- * Test-only helpers for discovering SvelteKit page route files from disk.
+ * Test-only helpers for on-disk SvelteKit app fixtures.
  *
  * Production route discovery uses Vite's `import.meta.glob` (see
- * `src/adapters/sveltekit/internal/routes.ts`). These on-disk equivalents let
- * tests build route file fixtures without a Vite module graph. They live
+ * `src/adapters/sveltekit/internal/routes.ts`), and the Node tooling reads the
+ * routes directory from disk (see `src/node/sveltekit-routes.ts`). These
+ * helpers build the temporary apps the Node tooling tests read. They live
  * outside `src/adapters` and `src/core` so Node built-ins never ship in the
  * published package, which must stay safe for edge runtimes.
  */
 
 /**
- * Discovers SvelteKit page route files from an on-disk src/routes directory.
- */
-export function discoverSvelteKitPageRouteFilesFromDirectory(routesDir: string): string[] {
-  return listFilePathsRecursively(routesDir)
-    .filter(isSvelteKitPageRouteFile)
-    .map((filePath) => toSvelteKitRouteFilePath(routesDir, filePath));
-}
-
-/**
- * Checks whether an on-disk file path is a SvelteKit page route file.
+ * Creates an empty temporary directory for an app fixture.
+ *
+ * @param name - Suffix of the directory name, e.g. `vite`.
+ * @returns The directory's path; remove it with `removeFixtureDir`.
  */
-function isSvelteKitPageRouteFile(filePath: string): boolean {
-  return /\/\+page.*\.(svelte|md|svx)$/.test(filePath.replaceAll(path.sep, '/'));
+export function createFixtureDir(name: string): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), `super-sitemap-${name}-`));
 }
 
 /**
- * Recursively reads a directory and returns the full disk path of each file.
+ * Writes fixture files under a directory, creating parent directories.
  *
- * @param dirPath - The directory to traverse.
- * @returns An array of strings representing full disk file paths.
+ * @param dir - The fixture directory.
+ * @param files - Relative file paths, written empty, e.g. page route files
+ *                such as `src/routes/about/+page.svelte`, or file contents by
+ *                relative path.
  */
-export function listFilePathsRecursively(dirPath: string): string[] {
-  const paths: string[] = [];
-
-  for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
-    const entryPath = path.join(dirPath, entry.name);
-
-    if (entry.isDirectory()) {
-      paths.push(...listFilePathsRecursively(entryPath));
-      continue;
-    }
-
-    if (entry.isFile()) {
-      paths.push(entryPath);
-    }
+export function writeFixtureFiles(dir: string, files: string[] | Record<string, string>): void {
+  const entries = Array.isArray(files)
+    ? files.map((file) => [file, ''] as const)
+    : Object.entries(files);
+
+  for (const [file, contents] of entries) {
+    const filePath = path.join(dir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, contents);
   }
-
-  return paths;
 }
 
 /**
- * Converts an on-disk page route file path into SvelteKit's Vite-style route path.
+ * Removes a fixture directory created by `createFixtureDir`.
  */
-function toSvelteKitRouteFilePath(routesDir: string, filePath: string): string {
-  const relativePath = path.relative(routesDir, filePath).split(path.sep).join('/');
-  return `/src/routes/${relativePath}`;
+export function removeFixtureDir(dir: string): void {
+  fs.rmSync(dir, { force: true, recursive: true });
 }
@@ -1,6 +1,5 @@
 import { getSamplePaths } from '../adapters/sveltekit/internal/sample-paths.js';
-import type { GetSamplePathsOptions } from '../adapters/sveltekit/internal/types.js';
-import type { InternalSvelteKitSitemapConfig } from '../adapters/sveltekit/internal/types.js';
+import type { GetSamplePathsOptions, SitemapConfig } from '../adapters/sveltekit/internal/types.js';
 
 /**
  * Samples paths from explicit SvelteKit route files for adapter tests.
@@ -8,12 +7,12 @@ import type { InternalSvelteKitSitemapConfig } from '../adapters/sveltekit/inter
  * @param options - SvelteKit sitemap config with injected route files.
  * @returns Canonical root-relative sample paths.
  */
-export function getSamplePathsFromRouteFiles({
+export async function getSamplePathsFromRouteFiles({
   getCanonicalPath,
   sitemapConfig,
 }: {
   getCanonicalPath?: GetSamplePathsOptions['getCanonicalPath'];
-  sitemapConfig: InternalSvelteKitSitemapConfig;
-}): string[] {
+  sitemapConfig: SitemapConfig;
+}): Promise<string[]> {
   return getSamplePaths({ getCanonicalPath, sitemapConfig });
 }